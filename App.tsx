@@ -1,11 +1,42 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Upload, Sparkles, Download, RefreshCw, LayoutTemplate, Image as ImageIcon, Plus, Trash2, Type as TypeIcon, GripVertical, Settings2, AlignLeft, AlignCenter, AlignRight, AlignJustify, X, Bold, Save, History, Clock, AlertCircle, Layers, FolderDown, Pencil, FileJson, FolderOpen, HardDriveDownload, Loader2, Copy } from 'lucide-react';
-import * as htmlToImage from 'html-to-image';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Upload, Sparkles, Download, RefreshCw, LayoutTemplate, Image as ImageIcon, Plus, Trash2, Type as TypeIcon, GripVertical, Settings2, AlignLeft, AlignCenter, AlignRight, AlignJustify, X, Bold, Save, History, Clock, AlertCircle, Layers, FolderDown, Pencil, FileJson, FolderOpen, HardDriveDownload, Loader2, Copy, Undo2, Redo2, Palette, LayoutDashboard, Eye, EyeOff, Code2, Table2, Table as TableIcon, RotateCcw, LayoutGrid } from 'lucide-react';
 import JSZip from 'jszip';
-import PosterPreview from './components/PosterPreview';
+import PosterPreview, { PreviewTextTarget } from './components/PosterPreview';
 import CropModal, { PREVIEW_SIZE } from './components/CropModal';
+import ThemeEditor from './components/ThemeEditor';
+import LayoutPicker from './components/LayoutPicker';
+import { DEFAULT_LAYOUT_ID } from './components/posterLayouts';
 import { RichTextEditor } from './components/RichTextEditor';
-import { PosterData, ImageConfig, ContentBlock, ContentBlockType, PosterDetail, HeaderImage } from './types';
+import TableEditor from './components/TableEditor';
+import GalleryEditor from './components/GalleryEditor';
+import ExportSettingsModal from './components/ExportSettingsModal';
+import HtmlExportModal from './components/HtmlExportModal';
+import SnapshotCompareModal from './components/SnapshotCompareModal';
+import BackupRestoreModal from './components/BackupRestoreModal';
+import SyncConflictModal from './components/SyncConflictModal';
+import StoragePanel from './components/StoragePanel';
+import { isQuotaError } from './services/storageUsage';
+import DraftLibrary, { DraftMetaUpdate } from './components/DraftLibrary';
+import BatchGenerateModal from './components/BatchGenerateModal';
+import { useHistory, useHistoryShortcuts, HistoryUpdateOptions } from './hooks/useHistory';
+import { useAutosave, useUnsavedChangesWarning } from './hooks/useAutosave';
+import { processImageFile } from './services/imageUtils';
+import { dbAPI, SessionEntry, DraftSnapshot } from './services/db';
+import { getDraftSnapshots, getSnapshotLimit, updateSnapshotLimit, DEFAULT_SNAPSHOT_LIMIT } from './services/draftHistory';
+import { storeRecordImages, resolveRecordImages, collectGarbageAssets, migrateInlineDraftImages, withAssetLock } from './services/draftAssets';
+import { StorageProvider, StorageProviderKind, indexedDbProvider, loadStorageProvider, selectStorageProvider, getRememberedFolder, isFolderStorageSupported, getRemoteConfig, setRemoteConfig } from './services/storageProvider';
+import { SyncConflictError } from './services/remoteStorage';
+import { createBackup, readBackup, restoreBackup, BackupContents, ConflictResolution, BACKUP_EXTENSION } from './services/backup';
+import { buildPosterHtml, HtmlImageMode } from './services/htmlExport';
+import { createTiledRaster, renderThumbnail, measureCutLayout, slicePosterRaster, encodeCanvas, extensionForBlob, downloadBlob, CANVAS_LIMITS, fitsCanvasLimits, maxCanvasHeightFor, POSTER_WIDTH } from './services/exportService';
+import { upgradeRecord, describeIssues, ProjectFormatError, CURRENT_FORMAT_VERSION } from './services/projectFormat';
+import { buildProjectBundle, importProjectFile, BUNDLE_EXTENSION } from './services/projectBundle';
+import { safeFileName } from './services/batchService';
+import { createTable } from './services/tableData';
+import { DEFAULT_EXPORT_SETTINGS } from './services/exportSettings';
+import { createGallery, addGalleryImages, updateGalleryImage, MAX_GALLERY_IMAGES } from './services/galleryData';
+import { PosterData, ImageConfig, ContentBlock, ContentBlockType, TableData, GalleryData, PosterDetail, HeaderImage, PosterTheme, MarketingCopyPosition, ExportSettings, SavedRecord } from './types';
+import { DEFAULT_THEME } from './themes';
 
 // Updated Default Data with HTML content for rich text compatibility
 const INITIAL_DATA: PosterData = {
@@ -24,150 +55,21 @@ const INITIAL_DATA: PosterData = {
   ]
 };
 
-// Interface for Saved Records
-interface SavedRecord {
-  id: string;
-  name: string;
-  timestamp: number;
-  data: PosterData;
-  imageConfig: ImageConfig;
-  functionalImages?: HeaderImage[];
-}
-
-// --- IndexedDB Utilities (Replaces localStorage) ---
-const DB_NAME = 'PosterGeneratorDB';
-const STORE_NAME = 'drafts';
-const DB_VERSION = 1;
-
-const dbAPI = {
-  open: (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
-      request.onupgradeneeded = (e) => {
-        const db = (e.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        }
-      };
-    });
-  },
-  
-  add: async (record: SavedRecord): Promise<void> => {
-    const db = await dbAPI.open();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(record); // put allows updating if id exists
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
-  },
-
-  getAll: async (): Promise<SavedRecord[]> => {
-    const db = await dbAPI.open();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.getAll();
-      request.onsuccess = () => {
-        // Sort by timestamp descending (newest first)
-        const records = request.result as SavedRecord[];
-        records.sort((a, b) => b.timestamp - a.timestamp);
-        resolve(records);
-      };
-      request.onerror = () => reject(request.error);
-    });
-  },
-
-  delete: async (id: string): Promise<void> => {
-    const db = await dbAPI.open();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
-  }
-};
-
-// Helper: Convert Blob URL to Base64 for storage
-const blobUrlToBase64 = async (url: string): Promise<string> => {
-  if (!url || url.startsWith('data:')) return url; // Already base64 or empty
-  try {
-    const response = await fetch(url);
-    const blob = await response.blob();
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  } catch (e) {
-    console.error("Image conversion failed", e);
-    return "";
-  }
-};
-
-// Helper: Resize and Compress Image on Upload
-const processImageFile = (file: File, maxWidth: number = 960): Promise<string> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    reader.onload = (readerEvent) => {
-      const img = new Image();
-      img.onload = () => {
-        let width = img.width;
-        let height = img.height;
-
-        // Resize logic: Only downscale if larger than maxWidth
-        if (width > maxWidth) {
-          height = Math.round((height * maxWidth) / width);
-          width = maxWidth;
-        }
-
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx) {
-          // Fallback to original if canvas fails
-          resolve(URL.createObjectURL(file));
-          return;
-        }
-
-        // Fill white background for JPEGs (handles transparent PNGs converting to JPEG black background issue)
-        // Note: If preserving PNG transparency is critical, we might need logic here, 
-        // but for product details, white bg is usually safer for JPEGs.
-        if (file.type !== 'image/png') {
-           ctx.fillStyle = '#FFFFFF';
-           ctx.fillRect(0, 0, width, height);
-        }
-
-        ctx.drawImage(img, 0, 0, width, height);
-
-        // Compress
-        const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
-        const quality = 0.7; // Reduced quality for better performance
-
-        canvas.toBlob((blob) => {
-          if (blob) {
-            resolve(URL.createObjectURL(blob));
-          } else {
-            resolve(URL.createObjectURL(file));
-          }
-        }, mimeType, quality);
-      };
-      img.onerror = () => resolve(URL.createObjectURL(file)); // Fallback
-      img.src = readerEvent.target?.result as string;
-    };
-    reader.onerror = () => resolve(URL.createObjectURL(file)); // Fallback
-    reader.readAsDataURL(file);
-  });
+const INITIAL_IMAGE_CONFIG: ImageConfig = {
+  url: "", // Default to empty/gray
+  x: 0,
+  y: 0,
+  scale: 1
 };
 
+// Everything covered by undo/redo
+interface EditorDocument {
+  posterData: PosterData;
+  imageConfig: ImageConfig;
+  functionalImages: HeaderImage[];
+  theme: PosterTheme;
+  layoutId: string;
+}
 
 // Helper to generate formatted timestamp string (YYYYMMDD-HHMMSS)
 const getFormattedTimeStr = () => {
@@ -181,8 +83,62 @@ const getFormattedTimeStr = () => {
   return `${yyyy}${mm}${dd}-${hh}${min}${ss}`;
 };
 
+// Resolve a React-style state action against the previous value
+const resolveAction = <T,>(action: React.SetStateAction<T>, prev: T): T =>
+  typeof action === 'function' ? (action as (prev: T) => T)(prev) : action;
+
 function App() {
-  const [posterData, setPosterData] = useState<PosterData>(INITIAL_DATA);
+  // Undoable document state (poster data, header image, functional images)
+  const history = useHistory<EditorDocument>({
+    posterData: INITIAL_DATA,
+    imageConfig: INITIAL_IMAGE_CONFIG,
+    functionalImages: [],
+    theme: DEFAULT_THEME,
+    layoutId: DEFAULT_LAYOUT_ID
+  });
+  const { posterData, imageConfig, functionalImages, theme, layoutId } = history.present;
+  const { set: setDocument, reset: resetDocument, undo, redo } = history;
+
+  const setPosterData = useCallback((action: React.SetStateAction<PosterData>, options?: HistoryUpdateOptions) => {
+    setDocument(doc => {
+      const next = resolveAction(action, doc.posterData);
+      return next === doc.posterData ? doc : { ...doc, posterData: next };
+    }, options);
+  }, [setDocument]);
+
+  const setImageConfig = useCallback((action: React.SetStateAction<ImageConfig>, options?: HistoryUpdateOptions) => {
+    setDocument(doc => {
+      const next = resolveAction(action, doc.imageConfig);
+      return next === doc.imageConfig ? doc : { ...doc, imageConfig: next };
+    }, options);
+  }, [setDocument]);
+
+  const setFunctionalImages = useCallback((action: React.SetStateAction<HeaderImage[]>, options?: HistoryUpdateOptions) => {
+    setDocument(doc => {
+      const next = resolveAction(action, doc.functionalImages);
+      return next === doc.functionalImages ? doc : { ...doc, functionalImages: next };
+    }, options);
+  }, [setDocument]);
+
+  // Editing a single value detaches the theme from its preset
+  const handleThemeChange = useCallback((update: Partial<PosterTheme>, key: keyof PosterTheme | 'preset') => {
+    setDocument(doc => ({
+      ...doc,
+      theme: key === 'preset'
+        ? { ...DEFAULT_THEME, ...update }
+        : { ...doc.theme, ...update, presetId: undefined }
+    }), { group: `theme:${key}` });
+  }, [setDocument]);
+
+  const handleLayoutChange = useCallback((nextLayoutId: string) => {
+    setDocument(doc => doc.layoutId === nextLayoutId ? doc : { ...doc, layoutId: nextLayoutId });
+  }, [setDocument]);
+
+  // Header drag and wheel zoom fire continuously; group them into one undo step
+  const handleHeaderTransformChange = useCallback((config: ImageConfig) => {
+    setImageConfig(config, { group: 'header-transform' });
+  }, [setImageConfig]);
+
   const [isDownloading, setIsDownloading] = useState(false);
   const [isZipping, setIsZipping] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -193,17 +149,12 @@ function App() {
   const [draggedBlockIndex, setDraggedBlockIndex] = useState<number | null>(null);
   // Only enable drag when hovering the handle to prevent conflict with inputs/sliders
   const [activeDragId, setActiveDragId] = useState<string | null>(null); 
+  // Content block linked between the sidebar list and the preview
+  const [activeBlockId, setActiveBlockId] = useState<string | null>(null);
+  const [uploadingGalleryId, setUploadingGalleryId] = useState<string | null>(null);
+  const [editingGalleryCrop, setEditingGalleryCrop] = useState<{ blockId: string; imageId: string } | null>(null);
   
-  // Existing Header Image State
-  const [imageConfig, setImageConfig] = useState<ImageConfig>({
-    url: "", // Default to empty/gray
-    x: 0,
-    y: 0,
-    scale: 1
-  });
-
-  // NEW: Functional Images State (Multi-image)
-  const [functionalImages, setFunctionalImages] = useState<HeaderImage[]>([]);
+  // Functional Images drag state (images themselves live in the undoable document)
   const [draggedFuncImgIndex, setDraggedFuncImgIndex] = useState<number | null>(null);
   // State for Crop Modal
   const [editingFuncImageId, setEditingFuncImageId] = useState<string | null>(null);
@@ -220,24 +171,217 @@ function App() {
   const [saveName, setSaveName] = useState("");
   const [saveAsCopy, setSaveAsCopy] = useState(false); // New option in modal
 
+  // Export Settings
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+
+  // State as last saved to (or loaded from) the current draft; null = never saved
+  const [savedState, setSavedState] = useState<{ document: EditorDocument; exportSettings: ExportSettings } | null>(
+    () => ({ document: history.present, exportSettings: DEFAULT_EXPORT_SETTINGS })
+  );
+  const isDirty = !savedState || savedState.document !== history.present || savedState.exportSettings !== exportSettings;
+
+  // Autosaved session found on launch, waiting for the user to restore or discard it
+  const [pendingSession, setPendingSession] = useState<SessionEntry | null>(null);
+  // Autosave starts only after that question is answered, so it cannot overwrite the old session
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
+  const [lastAutosaveAt, setLastAutosaveAt] = useState<number | null>(null);
+
+  // Version history of the draft expanded in the history panel
+  const [expandedDraftId, setExpandedDraftId] = useState<string | null>(null);
+  const [draftSnapshots, setDraftSnapshots] = useState<DraftSnapshot[]>([]);
+  const [comparingSnapshot, setComparingSnapshot] = useState<DraftSnapshot | null>(null);
+  const [snapshotLimit, setSnapshotLimit] = useState(DEFAULT_SNAPSHOT_LIMIT);
+  // Where named drafts are stored; the folder name is kept for reconnecting
+  const [storage, setStorage] = useState<StorageProvider>(indexedDbProvider);
+  const [rememberedFolder, setRememberedFolder] = useState<string | null>(null);
+  const [rememberedServer, setRememberedServer] = useState<string | null>(null);
+  // A save rejected by the sync server because someone else saved first
+  const [syncConflict, setSyncConflict] = useState<{
+    error: SyncConflictError;
+    record: SavedRecord;
+    saved: { document: EditorDocument; exportSettings: ExportSettings };
+  } | null>(null);
+  const [isResolvingConflict, setIsResolvingConflict] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  // Full backup / restore of the draft library
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<BackupContents | null>(null);
+  const [isRestoringBackup, setIsRestoringBackup] = useState(false);
+  const [isExportSettingsOpen, setIsExportSettingsOpen] = useState(false);
+  // Tiled render progress; the controller lets the user cancel a long export
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  // HTML Export
+  const [isHtmlExportOpen, setIsHtmlExportOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isExportingHtml, setIsExportingHtml] = useState(false);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const funcImgInputRef = useRef<HTMLInputElement>(null);
   // Ref for Project File Import
   const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const backupFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Anything drawn over the editor. Opening a new modal or panel means adding it here.
+  const isOverlayOpen = [
+    isSaveModalOpen,
+    isExportSettingsOpen,
+    isHtmlExportOpen,
+    isBatchOpen,
+    isStorageOpen,
+    showHistory, // Draft library: search, tags and version limit inputs
+    pendingSession,
+    comparingSnapshot,
+    pendingBackup,
+    syncConflict,
+    editingFuncImageId,
+    editingGalleryCrop
+  ].some(Boolean);
+
+  // Ctrl+Z / Ctrl+Shift+Z - disabled while an overlay with its own inputs is open,
+  // so undo in a search box never changes the poster hidden behind it
+  useHistoryShortcuts(undo, redo, !isOverlayOpen);
 
   // Load history from IndexedDB on mount
   useEffect(() => {
     const loadData = async () => {
       try {
         const records = await dbAPI.getAll();
-        setSavedRecords(records);
+        // Bring drafts saved by older versions up to the current schema
+        const upgraded = await Promise.all(records.map(async (record) => {
+          if (record.formatVersion === CURRENT_FORMAT_VERSION) return record;
+          try {
+            const migrated = upgradeRecord(record);
+            await dbAPI.add(migrated);
+            return migrated;
+          } catch (e) {
+            // Left as-is; opening it shows the validation report
+            console.warn(`Draft "${record.name}" could not be upgraded`, e);
+            return record;
+          }
+        }));
+        setSnapshotLimit(await getSnapshotLimit());
+
+        // One-time move of inline base64 images into the shared assets store
+        setSavedRecords(await migrateInlineDraftImages() ? await dbAPI.getAll() : upgraded);
+
+        // Reopen the folder library if the browser still grants access
+        setRememberedFolder((await getRememberedFolder())?.name ?? null);
+        setRememberedServer((await getRemoteConfig())?.baseUrl ?? null);
+        try {
+          const provider = await loadStorageProvider();
+          if (provider !== indexedDbProvider) {
+            setSavedRecords(await provider.list());
+            setStorage(provider);
+          }
+        } catch (e) {
+          console.error("Failed to open the draft folder", e);
+        }
+
+        // Offer to restore edits left by a closed tab or crash
+        const session = await dbAPI.getSession();
+        if (session) {
+          setPendingSession(session);
+          return;
+        }
       } catch (e) {
         console.error("Failed to load history from IndexedDB", e);
       }
+      setIsSessionChecked(true);
     };
     loadData();
   }, []);
 
+  // Back online: the sync provider uploads queued drafts while listing
+  useEffect(() => {
+    if (storage.kind !== 'remote') return;
+    const handleOnline = async () => {
+      try {
+        setSavedRecords(await storage.list());
+      } catch (e) {
+        console.error("Sync after reconnect failed", e);
+      }
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [storage]);
+
+  // --- AUTOSAVE (working session, separate from named drafts) ---
+  const autosaveState = useMemo(() => ({
+    document: history.present,
+    exportSettings,
+    draftId: currentDraftId,
+    draftName: saveName,
+    isDirty
+  }), [history.present, exportSettings, currentDraftId, saveName, isDirty]);
+
+  const handleAutosave = useCallback(async (state: typeof autosaveState) => {
+    if (!state.isDirty) {
+      // Nothing beyond the saved draft worth recovering
+      await dbAPI.clearSession();
+      setLastAutosaveAt(null);
+      return;
+    }
+    const { document: doc } = state;
+    await withAssetLock(async () => {
+      const record = await storeRecordImages({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        id: state.draftId || 'session',
+        name: state.draftName || '未保存的编辑',
+        timestamp: Date.now(),
+        data: doc.posterData,
+        imageConfig: doc.imageConfig,
+        functionalImages: doc.functionalImages,
+        theme: doc.theme,
+        layoutId: doc.layoutId,
+        exportSettings: state.exportSettings
+      });
+      await dbAPI.putSession({ savedAt: Date.now(), draftId: state.draftId, draftName: state.draftName, record });
+    });
+    setLastAutosaveAt(Date.now());
+  }, []);
+
+  useAutosave(autosaveState, handleAutosave, isSessionChecked);
+  useUnsavedChangesWarning(isDirty);
+
+  const handleRestoreSession = async () => {
+    if (!pendingSession) return;
+    try {
+      const record = await resolveRecordImages(upgradeRecord(pendingSession.record));
+      const settings = { ...DEFAULT_EXPORT_SETTINGS, ...record.exportSettings };
+      setExportSettings(settings);
+      resetDocument({
+        posterData: record.data,
+        imageConfig: record.imageConfig,
+        functionalImages: record.functionalImages || [],
+        theme: record.theme || DEFAULT_THEME,
+        layoutId: record.layoutId || DEFAULT_LAYOUT_ID
+      });
+      setCurrentDraftId(pendingSession.draftId);
+      setSaveName(pendingSession.draftName);
+      // Restored edits are not in any draft yet
+      setSavedState(null);
+    } catch (err) {
+      console.error("Session restore failed", err);
+      const msg = err instanceof Error ? err.message : "未知错误";
+      alert(`❌ 恢复失败：${msg}`);
+    } finally {
+      setPendingSession(null);
+      setIsSessionChecked(true);
+    }
+  };
+
+  const handleDiscardSession = async () => {
+    setPendingSession(null);
+    setIsSessionChecked(true);
+    try {
+      await dbAPI.clearSession();
+      await collectGarbageAssets();
+    } catch (e) {
+      console.error("Failed to clear session", e);
+    }
+  };
+
   // Open Save Modal
   const handleOpenSaveModal = () => {
     // If it's a new draft (no ID), generate a name.
@@ -250,45 +394,25 @@ function App() {
     setIsSaveModalOpen(true);
   };
 
-  // --- SAVE TO LOCAL FILE (EXPORT JSON) ---
+  // --- SAVE TO LOCAL FILE (EXPORT PROJECT BUNDLE) ---
   const handleSaveToLocalFile = async () => {
     setIsSaving(true);
     try {
-      // 1. Prepare Data (Convert all images to Base64)
-      const headerBase64 = await blobUrlToBase64(imageConfig.url || "");
-      const savedFunctionalImages = await Promise.all(functionalImages.map(async (img) => {
-         const base64 = await blobUrlToBase64(img.url);
-         return { ...img, url: base64 };
-      }));
-      const newContent = await Promise.all(posterData.content.map(async (block) => {
-        if (block.type === 'image' && block.value) {
-          const base64 = await blobUrlToBase64(block.value);
-          return { ...block, value: base64 };
-        }
-        return block;
-      }));
-
-      const exportData: SavedRecord = {
+      // 1. Bundle project.json with the original image files
+      const bundle = await buildProjectBundle({
         id: Date.now().toString(),
-        name: "Local Export",
+        name: saveName || "Local Export",
         timestamp: Date.now(),
-        data: { ...posterData, content: newContent },
-        imageConfig: { ...imageConfig, url: headerBase64 },
-        functionalImages: savedFunctionalImages
-      };
+        data: posterData,
+        imageConfig,
+        functionalImages,
+        theme,
+        layoutId,
+        exportSettings
+      });
 
-      // 2. Create Blob and Download
-      const jsonString = JSON.stringify(exportData, null, 2);
-      const blob = new Blob([jsonString], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `详情页工程-${getFormattedTimeStr()}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      // 2. Download
+      downloadBlob(bundle, `详情页工程-${getFormattedTimeStr()}.${BUNDLE_EXTENSION}`);
 
     } catch (e) {
       console.error("Export failed", e);
@@ -298,13 +422,13 @@ function App() {
     }
   };
 
-  // --- LOAD FROM LOCAL FILE (IMPORT JSON) ---
+  // --- LOAD FROM LOCAL FILE (IMPORT BUNDLE / JSON) ---
   const handleImportClick = () => {
     if (isImporting) return;
     projectFileInputRef.current?.click();
   };
 
-  const handleFileImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -315,54 +439,59 @@ function App() {
 
     setIsImporting(true);
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const json = event.target?.result as string;
-        const record = JSON.parse(json) as SavedRecord;
-        
-        // Basic validation
-        if (!record.data || !record.imageConfig) {
-          throw new Error("文件格式不正确：缺少必要的工程数据");
-        }
-
-        // Apply Data
-        setPosterData(record.data);
-        setImageConfig(record.imageConfig);
-        setFunctionalImages(record.functionalImages || []);
-        
-        // Reset ID logic: Imported files are treated as new/unsaved drafts initially
-        // to avoid ID conflicts with local DB.
-        setCurrentDraftId(null); 
-        setSaveName("");
-        
-        setTimeout(() => {
-          alert(`✅ 导入成功！\n\n已加载工程，包含 ${record.functionalImages?.length || 0} 张商品主图。`);
-        }, 100);
-
-      } catch (err) {
-        console.error(err);
-        const msg = err instanceof Error ? err.message : "未知错误";
-        alert(`❌ 导入失败：${msg}\n\n请确认您选择的是正确的 .json 工程文件。`);
-      } finally {
-        setIsImporting(false);
-        if (projectFileInputRef.current) projectFileInputRef.current.value = '';
-      }
-    };
-
-    reader.onerror = () => {
-      alert("❌ 读取文件出错，请重试。");
+    try {
+      // Upgrades older files and validates every field
+      const record = await importProjectFile(file);
+
+      const settings = { ...DEFAULT_EXPORT_SETTINGS, ...record.exportSettings };
+      setExportSettings(settings);
+
+      // Apply Data (starts a fresh undo history)
+      const doc: EditorDocument = {
+        posterData: record.data,
+        imageConfig: record.imageConfig,
+        functionalImages: record.functionalImages || [],
+        theme: record.theme || DEFAULT_THEME,
+        layoutId: record.layoutId || DEFAULT_LAYOUT_ID
+      };
+      resetDocument(doc);
+      // The file on disk holds this state, so it counts as saved
+      setSavedState({ document: doc, exportSettings: settings });
+      
+      // Reset ID logic: Imported files are treated as new/unsaved drafts initially
+      // to avoid ID conflicts with local DB.
+      setCurrentDraftId(null); 
+      setSaveName("");
+      
+      setTimeout(() => {
+        alert(`✅ 导入成功！\n\n已加载工程，包含 ${record.functionalImages?.length || 0} 张商品主图。`);
+      }, 100);
+
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : "未知错误";
+      const report = err instanceof ProjectFormatError && err.issues.length ? `\n\n${describeIssues(err.issues)}` : '';
+      alert(`❌ 导入失败：${msg}${report}\n\n请确认您选择的是 .${BUNDLE_EXTENSION} 工程包或 .json 工程文件。`);
+    } finally {
       setIsImporting(false);
       if (projectFileInputRef.current) projectFileInputRef.current.value = '';
-    };
-
-    setTimeout(() => {
-        reader.readAsText(file);
-    }, 50);
+    }
   };
 
 
   // Actual Save Logic (Updated to use IndexedDB)
+  // Puts a freshly written draft at the top of the library and tracks it
+  const applySavedRecord = async (record: SavedRecord, saved: { document: EditorDocument; exportSettings: ExportSettings }) => {
+    // The overwritten version just went into the draft's history
+    if (storage.supportsHistory && expandedDraftId === record.id) {
+      setDraftSnapshots(await getDraftSnapshots(record.id));
+    }
+    setSavedRecords(prev => [record, ...prev.filter(r => r.id !== record.id)]);
+    setCurrentDraftId(record.id);
+    setSaveName(record.name);
+    setSavedState(saved);
+  };
+
   const executeSave = async () => {
     if (!saveName.trim()) return;
 
@@ -371,90 +500,387 @@ function App() {
     
     await new Promise(resolve => setTimeout(resolve, 100));
 
-    try {
-      // 1. Convert Existing Header Image
-      const headerBase64 = await blobUrlToBase64(imageConfig.url || "");
-
-      // 2. Convert New Functional Images
-      const savedFunctionalImages = await Promise.all(functionalImages.map(async (img) => {
-         const base64 = await blobUrlToBase64(img.url);
-         return { ...img, url: base64 };
-      }));
-      
-      // 3. Convert Content Images
-      const newContent = await Promise.all(posterData.content.map(async (block) => {
-        if (block.type === 'image' && block.value) {
-          const base64 = await blobUrlToBase64(block.value);
-          return { ...block, value: base64 };
-        }
-        return block;
-      }));
+    // What this save writes; edits made while it runs stay unsaved
+    const snapshot = { document: history.present, exportSettings };
+    let draft: SavedRecord | undefined;
 
+    try {
       // Determine ID: Use existing if we have one and NOT saving as copy, otherwise generate new
       const idToSave = (!saveAsCopy && currentDraftId) ? currentDraftId : Date.now().toString();
 
-      const record: SavedRecord = {
+      // Thumbnail for the draft list and version history
+      const node = document.getElementById('poster-canvas');
+      let thumbnail: string | undefined;
+      try {
+        if (node) thumbnail = await renderThumbnail(node, theme.pageBackground);
+      } catch (e) {
+        console.error("Thumbnail failed", e);
+      }
+
+      // Tags and folder carry over from the draft being saved (or copied)
+      const baseRecord = currentDraftId ? savedRecords.find(r => r.id === currentDraftId) : undefined;
+
+      draft = {
+        formatVersion: CURRENT_FORMAT_VERSION,
         id: idToSave,
         name: saveName,
         timestamp: Date.now(),
-        data: { ...posterData, content: newContent },
-        imageConfig: { ...imageConfig, url: headerBase64 },
-        functionalImages: savedFunctionalImages
+        data: posterData,
+        imageConfig,
+        functionalImages,
+        theme,
+        layoutId,
+        exportSettings,
+        thumbnail,
+        tags: baseRecord?.tags,
+        folder: baseRecord?.folder
       };
-
-      // Save to IndexedDB (Disk)
-      await dbAPI.add(record);
-      
-      // Update State (Memory)
-      setSavedRecords(prev => {
-        // Remove old entry with same ID if exists (move to top logic)
-        const filtered = prev.filter(r => r.id !== idToSave);
-        return [record, ...filtered];
-      });
-
-      // Update current tracking ID
-      setCurrentDraftId(idToSave);
-
+      await applySavedRecord(await storage.save(draft), snapshot);
     } catch (error) {
-      alert("保存失败：数据库写入错误。可能是存储空间不足或权限受限。");
+      if (error instanceof SyncConflictError && draft) {
+        setSyncConflict({ error, record: draft, saved: snapshot });
+        return;
+      }
       console.error(error);
+      if (isQuotaError(error)) {
+        if (window.confirm("保存失败：浏览器存储空间已满。\n\n是否打开“存储空间”清理历史版本、压缩图片或删除旧草稿？")) setIsStorageOpen(true);
+        return;
+      }
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`保存失败 (${msg})。可能是存储空间不足或权限受限。`);
     } finally {
       setIsSaving(false);
     }
   };
 
-  const handleLoadRecord = (record: SavedRecord) => {
-    if (window.confirm(`确定要重新编辑存档“${record.name}”吗？当前未保存的修改将丢失。`)) {
-      setPosterData(record.data);
-      setImageConfig(record.imageConfig);
-      setFunctionalImages(record.functionalImages || []);
-      
-      // Track this record so subsequent saves overwrite it
-      setCurrentDraftId(record.id);
-      setSaveName(record.name);
+  const handleLoadRecord = async (stored: SavedRecord) => {
+    let record: SavedRecord;
+    try {
+      record = upgradeRecord(stored);
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : "未知错误";
+      const report = err instanceof ProjectFormatError && err.issues.length ? `\n\n${describeIssues(err.issues)}` : '';
+      alert(`❌ 存档“${stored.name}”已损坏，无法打开：${msg}${report}`);
+      return;
+    }
 
+    if (window.confirm(`确定要重新编辑存档“${record.name}”吗？当前未保存的修改将丢失。`)) {
+      try {
+        record = await storage.load(record.id);
+      } catch (err) {
+        console.error("Failed to read draft", err);
+        const msg = err instanceof Error ? err.message : String(err);
+        alert(`读取存档失败 (${msg})，请重试。`);
+        return;
+      }
+      openRecord(record);
       setShowHistory(false);
     }
   };
 
-  const handleDeleteRecord = async (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (window.confirm("确定要删除这条记录吗？")) {
+  // Replaces the editor content with a stored draft (images already resolved)
+  const openRecord = (record: SavedRecord) => {
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, ...record.exportSettings };
+    setExportSettings(settings);
+    const doc: EditorDocument = {
+      posterData: record.data,
+      imageConfig: record.imageConfig,
+      functionalImages: record.functionalImages || [],
+      theme: record.theme || DEFAULT_THEME,
+      layoutId: record.layoutId || DEFAULT_LAYOUT_ID
+    };
+    resetDocument(doc);
+    setSavedState({ document: doc, exportSettings: settings });
+
+    // Track this record so subsequent saves overwrite it
+    setCurrentDraftId(record.id);
+    setSaveName(record.name);
+  };
+
+  // --- SYNC CONFLICTS ---
+  const resolveConflict = async (action: () => Promise<void>) => {
+    setIsResolvingConflict(true);
+    try {
+      await action();
+      setSyncConflict(null);
+    } catch (error) {
+      console.error("Conflict resolution failed", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`操作失败 (${msg})，请重试。`);
+    } finally {
+      setIsResolvingConflict(false);
+    }
+  };
+
+  const handleConflictOverwrite = () => resolveConflict(async () => {
+    if (!syncConflict?.error.overwrite) return;
+    await applySavedRecord(await syncConflict.error.overwrite(), syncConflict.saved);
+  });
+
+  const handleConflictSaveCopy = () => resolveConflict(async () => {
+    if (!syncConflict) return;
+    const copy = { ...syncConflict.record, id: Date.now().toString(), name: `${syncConflict.record.name}（副本）` };
+    await applySavedRecord(await storage.save(copy), syncConflict.saved);
+  });
+
+  // Drops the local edits in favour of the version on the server
+  const handleConflictLoadRemote = () => resolveConflict(async () => {
+    if (!syncConflict) return;
+    openRecord(await storage.load(syncConflict.record.id));
+    setSavedRecords(await storage.list());
+  });
+
+  const handleDeleteDrafts = async (ids: string[]) => {
+    if (!ids.length) return;
+    const message = ids.length === 1 ? "确定要删除这条记录吗？" : `确定要删除选中的 ${ids.length} 个草稿吗？`;
+    if (window.confirm(message)) {
       try {
-        await dbAPI.delete(id);
-        setSavedRecords(prev => prev.filter(r => r.id !== id));
+        await storage.delete(ids);
+        setSavedRecords(prev => prev.filter(r => !ids.includes(r.id)));
+        if (expandedDraftId && ids.includes(expandedDraftId)) setExpandedDraftId(null);
         // If deleting current draft, reset ID
-        if (currentDraftId === id) {
+        if (currentDraftId && ids.includes(currentDraftId)) {
           setCurrentDraftId(null);
           setSaveName("");
         }
       } catch (error) {
         console.error("Delete failed", error);
-        alert("删除失败");
+        const msg = error instanceof Error ? error.message : String(error);
+        alert(`删除失败 (${msg})`);
+        if (error instanceof SyncConflictError) setSavedRecords(await storage.list().catch(() => savedRecords));
       }
     }
   };
-  
+
+  // Tags / folder changes are library metadata: no new version, timestamp kept
+  const handleUpdateDraftMeta = async (ids: string[], update: (record: SavedRecord) => DraftMetaUpdate) => {
+    try {
+      const updated = savedRecords
+        .filter(r => ids.includes(r.id))
+        .map(record => ({ ...record, ...update(record) }));
+      for (const record of updated) {
+        await storage.updateMeta(record.id, { tags: record.tags, folder: record.folder });
+      }
+      setSavedRecords(prev => prev.map(r => updated.find(u => u.id === r.id) || r));
+    } catch (error) {
+      console.error("Update failed", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`保存标签失败 (${msg})`);
+    }
+  };
+
+  // One draft downloads as a .xqproj bundle; several are zipped together
+  const handleExportDrafts = async (ids: string[]) => {
+    const records = savedRecords.filter(r => ids.includes(r.id));
+    if (!records.length || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const bundles: { name: string; blob: Blob }[] = [];
+      for (const stored of records) {
+        const record = await storage.load(stored.id);
+        bundles.push({ name: safeFileName(record.name) || record.id, blob: await buildProjectBundle(record) });
+      }
+
+      if (bundles.length === 1) {
+        downloadBlob(bundles[0].blob, `${bundles[0].name}.${BUNDLE_EXTENSION}`);
+      } else {
+        const zip = new JSZip();
+        const used = new Set<string>();
+        bundles.forEach(({ name, blob }) => {
+          let fileName = `${name}.${BUNDLE_EXTENSION}`;
+          for (let i = 2; used.has(fileName); i++) fileName = `${name} (${i}).${BUNDLE_EXTENSION}`;
+          used.add(fileName);
+          zip.file(fileName, blob, { compression: 'STORE' });
+        });
+        const content = await zip.generateAsync({ type: "blob" });
+        downloadBlob(content, `草稿导出-${getFormattedTimeStr()}.zip`);
+      }
+    } catch (error) {
+      console.error("Draft export failed", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`导出草稿失败 (${msg})，请重试。`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // --- DRAFT VERSION HISTORY ---
+  const handleToggleSnapshots = async (draftId: string) => {
+    if (expandedDraftId === draftId) {
+      setExpandedDraftId(null);
+      return;
+    }
+    try {
+      setDraftSnapshots(await getDraftSnapshots(draftId));
+      setExpandedDraftId(draftId);
+    } catch (error) {
+      console.error("Failed to load versions", error);
+      alert("读取历史版本失败");
+    }
+  };
+
+  // Loads a snapshot into the editor; saving then makes it the draft's current version
+  const handleRestoreSnapshot = async (snapshot: DraftSnapshot) => {
+    if (!window.confirm(`确定要恢复 ${new Date(snapshot.savedAt).toLocaleString()} 的版本吗？当前未保存的修改将丢失。\n\n恢复后点击“更新草稿”即可覆盖，被覆盖的版本仍会保留在历史中。`)) return;
+    try {
+      const record = await resolveRecordImages(upgradeRecord(snapshot.record));
+      setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...record.exportSettings });
+      resetDocument({
+        posterData: record.data,
+        imageConfig: record.imageConfig,
+        functionalImages: record.functionalImages || [],
+        theme: record.theme || DEFAULT_THEME,
+        layoutId: record.layoutId || DEFAULT_LAYOUT_ID
+      });
+      const draftExists = savedRecords.some(r => r.id === snapshot.draftId);
+      setCurrentDraftId(draftExists ? snapshot.draftId : null);
+      setSaveName(snapshot.name);
+      setSavedState(null); // Differs from the stored draft until saved
+      setComparingSnapshot(null);
+      setShowHistory(false);
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : "未知错误";
+      const report = err instanceof ProjectFormatError && err.issues.length ? `\n\n${describeIssues(err.issues)}` : '';
+      alert(`❌ 恢复失败：${msg}${report}`);
+    }
+  };
+
+  // Saves a snapshot as a separate draft, leaving the original draft untouched
+  const handleBranchSnapshot = async (snapshot: DraftSnapshot) => {
+    try {
+      const record: SavedRecord = {
+        ...snapshot.record,
+        id: Date.now().toString(),
+        name: `${snapshot.name} 分支`,
+        timestamp: Date.now()
+      };
+      await dbAPI.add(record);
+      setSavedRecords(prev => [record, ...prev]);
+      setComparingSnapshot(null);
+      alert(`✅ 已另存为新草稿“${record.name}”`);
+    } catch (error) {
+      console.error("Branch failed", error);
+      alert("另存失败：数据库写入错误。");
+    }
+  };
+
+  // Applied on blur so typing "50" never prunes down to 5 on the way
+  const handleSnapshotLimitCommit = async () => {
+    try {
+      await updateSnapshotLimit(snapshotLimit);
+      if (expandedDraftId) setDraftSnapshots(await getDraftSnapshots(expandedDraftId));
+      await collectGarbageAssets();
+    } catch (error) {
+      console.error("Failed to apply version limit", error);
+    }
+  };
+
+  // --- STORAGE LOCATION ---
+  // The open document does not exist in the other location, so it becomes a new unsaved draft there
+  const handleSelectStorage = async (kind: StorageProviderKind, pickNew = false) => {
+    try {
+      if (kind === 'remote' && (pickNew || !rememberedServer)) {
+        const baseUrl = window.prompt("同步服务器地址，例如 http://localhost:8787", rememberedServer || "")?.trim();
+        if (!baseUrl) return;
+        if (!/^https?:\/\//.test(baseUrl)) {
+          alert("服务器地址需以 http:// 或 https:// 开头");
+          return;
+        }
+        const token = window.prompt("访问令牌（没有可留空）", "")?.trim();
+        await setRemoteConfig({ baseUrl, token: token || undefined });
+        setRememberedServer(baseUrl);
+      }
+      const provider = await selectStorageProvider(kind, pickNew);
+      setSavedRecords(await provider.list());
+      setStorage(provider);
+      if (provider.kind === 'folder') setRememberedFolder(provider.label);
+      if (provider.kind !== storage.kind || pickNew) {
+        setCurrentDraftId(null);
+        setSavedState(null);
+        setExpandedDraftId(null);
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return; // Picker dismissed
+      console.error("Failed to switch storage", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`切换存储位置失败 (${msg})`);
+    }
+  };
+
+  // Cleanup tools in the storage panel changed the IndexedDB library
+  const handleStorageCleaned = async () => {
+    try {
+      const records = await indexedDbProvider.list();
+      if (storage.kind === 'indexeddb') {
+        setSavedRecords(records);
+        if (currentDraftId && !records.some(r => r.id === currentDraftId)) {
+          setCurrentDraftId(null);
+          setSavedState(null);
+        }
+      }
+      if (expandedDraftId) setDraftSnapshots(await getDraftSnapshots(expandedDraftId));
+    } catch (error) {
+      console.error("Failed to reload drafts", error);
+    }
+  };
+
+  // --- FULL BACKUP ---
+  const handleBackupAll = async () => {
+    setIsBackingUp(true);
+    try {
+      const blob = await createBackup();
+      downloadBlob(blob, `草稿备份-${getFormattedTimeStr()}.${BACKUP_EXTENSION}`);
+    } catch (error) {
+      console.error("Backup failed", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`备份失败 (${msg})，请重试。`);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsBackingUp(true);
+    try {
+      setPendingBackup(await readBackup(file));
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : "未知错误";
+      const report = err instanceof ProjectFormatError && err.issues.length ? `\n\n${describeIssues(err.issues)}` : '';
+      alert(`❌ 读取备份失败：${msg}${report}`);
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleConfirmRestore = async (resolutions: Record<string, ConflictResolution>) => {
+    if (!pendingBackup) return;
+    setIsRestoringBackup(true);
+    try {
+      const summary = await restoreBackup(pendingBackup, resolutions);
+      setSavedRecords(await storage.list());
+      if (expandedDraftId) setDraftSnapshots(await getDraftSnapshots(expandedDraftId));
+      // The open draft no longer matches what is stored
+      if (currentDraftId && resolutions[currentDraftId] === 'overwrite') setSavedState(null);
+      setPendingBackup(null);
+      alert(`✅ 恢复完成：新增 ${summary.added} 个，覆盖 ${summary.overwritten} 个，保留副本 ${summary.duplicated} 个，跳过 ${summary.skipped} 个。`);
+    } catch (error) {
+      console.error("Restore failed", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`恢复失败 (${msg})，已恢复的草稿会保留在草稿库中。`);
+      setSavedRecords(await storage.list().catch(() => savedRecords));
+    } finally {
+      setIsRestoringBackup(false);
+    }
+  };
+
   // Handler for Existing Header Image
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -524,7 +950,7 @@ function App() {
       const [draggedItem] = newImages.splice(draggedFuncImgIndex, 1);
       newImages.splice(targetIndex, 0, draggedItem);
       return newImages;
-    });
+    }, { group: 'reorder-functional-images' });
     setDraggedFuncImgIndex(targetIndex);
   };
 
@@ -536,6 +962,13 @@ function App() {
     setPosterData(prev => ({
       ...prev,
       [field]: value
+    }), { group: `data:${field}` });
+  };
+
+  const handleMarketingStyleChange = (styleUpdate: Partial<NonNullable<PosterData['marketingCopyStyle']>>) => {
+    setPosterData(prev => ({
+      ...prev,
+      marketingCopyStyle: { ...prev.marketingCopyStyle, ...styleUpdate }
     }));
   };
 
@@ -544,7 +977,7 @@ function App() {
     setPosterData(prev => ({
       ...prev,
       details: prev.details.map(d => d.id === id ? { ...d, [field]: newValue } : d)
-    }));
+    }), { group: `detail:${id}:${field}` });
   };
 
   const handleDetailStyleChange = (id: string, styleUpdate: Partial<NonNullable<PosterDetail['style']>>) => {
@@ -575,7 +1008,9 @@ function App() {
     const newBlock: ContentBlock = {
       id: Date.now().toString() + Math.random().toString().slice(2, 5),
       type,
-      value: type === 'text' ? '点击输入内容...' : ''
+      value: type === 'text' ? '点击输入内容...' : '',
+      ...(type === 'table' ? { table: createTable() } : {}),
+      ...(type === 'gallery' ? { gallery: createGallery() } : {})
     };
     setPosterData(prev => ({
       ...prev,
@@ -590,20 +1025,100 @@ function App() {
     }));
   };
 
-  const handleBlockChange = (id: string, value: string) => {
+  const handleBlockChange = (id: string, value: string, options?: HistoryUpdateOptions) => {
     setPosterData(prev => ({
       ...prev,
       content: prev.content.map(b => b.id === id ? { ...b, value } : b)
-    }));
+    }), options);
+  };
+
+  // Text edited in place on the preview goes through the same handlers as the sidebar
+  const handlePreviewTextEdit = (target: PreviewTextTarget, value: string) => {
+    switch (target.kind) {
+      case 'title':
+        handleDataChange('subTitle', value);
+        break;
+      case 'marketingCopy':
+        handleDataChange('marketingCopy', value);
+        break;
+      case 'detail':
+        handleDetailChange(target.id, 'value', value);
+        break;
+      case 'block':
+        handleBlockChange(target.id, value, { group: `block:${target.id}` });
+        break;
+    }
+  };
+
+  const handleBlockTableChange = (id: string, table: TableData, options?: HistoryUpdateOptions) => {
+    setPosterData(prev => ({
+      ...prev,
+      content: prev.content.map(b => b.id === id ? { ...b, table } : b)
+    }), options);
+  };
+
+  // Uploads finish after other edits may have happened, so gallery changes
+  // are applied to the latest state of the block
+  const updateBlockGallery = (id: string, update: (gallery: GalleryData) => GalleryData, options?: HistoryUpdateOptions) => {
+    setPosterData(prev => ({
+      ...prev,
+      content: prev.content.map(b => b.id === id ? { ...b, gallery: update(b.gallery || createGallery()) } : b)
+    }), options);
+  };
+
+  const handleBlockGalleryChange = (id: string, gallery: GalleryData, options?: HistoryUpdateOptions) => {
+    updateBlockGallery(id, () => gallery, options);
+  };
+
+  const handleGalleryUpload = async (id: string, files: File[]) => {
+    const room = MAX_GALLERY_IMAGES - (posterData.content.find(b => b.id === id)?.gallery?.images.length || 0);
+    if (files.length > room) alert(`图组最多 ${MAX_GALLERY_IMAGES} 张图片，多出的 ${files.length - room} 张已忽略。`);
+    if (room <= 0) return;
+
+    setUploadingGalleryId(id);
+    try {
+      const images = await Promise.all(files.slice(0, room).map(async (file) => ({
+        id: Date.now().toString() + Math.random().toString().slice(2, 6),
+        url: await processImageFile(file)
+      })));
+      updateBlockGallery(id, gallery => addGalleryImages(gallery, images));
+    } catch (err) {
+      console.error("Image processing failed", err);
+      alert("图片处理失败，请换一张图片重试。");
+    } finally {
+      setUploadingGalleryId(null);
+    }
+  };
+
+  // A new picture invalidates the old crop; the caption stays
+  const handleGalleryImageReplace = async (id: string, imageId: string, file: File) => {
+    try {
+      const url = await processImageFile(file);
+      updateBlockGallery(id, gallery => updateGalleryImage(gallery, imageId, { url, crop: undefined }));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleSaveGalleryCrop = (imageId: string, crop: { x: number; y: number; scale: number }) => {
+    if (!editingGalleryCrop) return;
+    updateBlockGallery(editingGalleryCrop.blockId, gallery => updateGalleryImage(gallery, imageId, { crop }));
   };
 
-  const handleBlockStyleChange = (id: string, styleUpdate: Partial<NonNullable<ContentBlock['style']>>) => {
+  const handleBlockStyleChange = (id: string, styleUpdate: Partial<NonNullable<ContentBlock['style']>>, options?: HistoryUpdateOptions) => {
     setPosterData(prev => ({
       ...prev,
       content: prev.content.map(b => 
         b.id === id ? { ...b, style: { ...b.style, ...styleUpdate } } : b
       )
-    }));
+    }), options);
+  };
+
+  const handleBlockAltChange = (id: string, alt: string) => {
+    setPosterData(prev => ({
+      ...prev,
+      content: prev.content.map(b => b.id === id ? { ...b, alt } : b)
+    }), { group: `block-alt:${id}` });
   };
 
   const handleBlockImageUpload = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
@@ -618,6 +1133,25 @@ function App() {
     }
   };
 
+  // Sidebar <-> preview linking for content blocks
+  const findBlockElement = (attribute: 'data-block-card' | 'data-block-id', id: string, scope: ParentNode = document) =>
+    scope.querySelector<HTMLElement>(`[${attribute}="${CSS.escape(id)}"]`);
+
+  const handlePreviewBlockActivate = (id: string, via: 'hover' | 'click') => {
+    // While typing in a sidebar card, scrolling the preview moves blocks under
+    // the pointer; those hovers must not pull the sidebar away
+    if (via === 'hover' && (document.activeElement as HTMLElement | null)?.closest('[data-block-card]')) return;
+    setActiveBlockId(id);
+    findBlockElement('data-block-card', id)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const handleSidebarBlockFocus = (id: string) => {
+    if (id === activeBlockId) return;
+    setActiveBlockId(id);
+    const canvas = document.getElementById('poster-canvas');
+    if (canvas) findBlockElement('data-block-id', id, canvas)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   // DnD Handlers
   const handleDragStart = (index: number) => {
     setDraggedBlockIndex(index);
@@ -635,7 +1169,7 @@ function App() {
         ...prev,
         content: newContent
       };
-    });
+    }, { group: 'reorder-blocks' });
     
     // Update index to follow the item
     setDraggedBlockIndex(targetIndex);
@@ -645,45 +1179,132 @@ function App() {
     setDraggedBlockIndex(null);
   };
 
-  const handleDownload = async () => {
-    if (isDownloading || isZipping) return;
+  // Returns false when the export was declined or cancelled
+  const handleDownload = async (): Promise<boolean> => {
+    if (isDownloading || isZipping) return false;
     
     const node = document.getElementById('poster-canvas');
-    if (node) {
-      setIsDownloading(true);
-      try {
-        // Double pass to ensure fonts and images are fully loaded/rendered
-        // Sometimes a first empty pass or delay helps with webfont loading in canvas
-        await new Promise(resolve => setTimeout(resolve, 100));
-
-        const dataUrl = await htmlToImage.toPng(node, { 
-          quality: 1.0, 
-          pixelRatio: 3, // Higher resolution
-          // cacheBust: true, // Removed as it breaks Blob URLs
-          skipAutoScale: true,
-          backgroundColor: '#efe8e0', // Match background to prevent transparent artifacts
-          useCORS: true, // Critical for external images
-          filter: (domNode) => {
-            // Exclude elements that shouldn't be in the final export (like UI helpers)
-            if (domNode instanceof HTMLElement && domNode.classList.contains('no-export')) {
-              return false;
-            }
-            return true;
-          }
+    if (!node) return false;
+
+    // Check browser canvas limits before starting a render that would fail
+    const pixelRatio = exportSettings.width / POSTER_WIDTH; // Target pixel width
+    const pixelWidth = Math.round(node.offsetWidth * pixelRatio);
+    const pixelHeight = Math.round(node.offsetHeight * pixelRatio);
+    let mode = exportSettings.mode;
+
+    if (pixelWidth > CANVAS_LIMITS.maxDimension) {
+      alert(`输出宽度 ${pixelWidth}px 超出浏览器画布上限 (${CANVAS_LIMITS.maxDimension}px)，请在导出设置中降低输出宽度。`);
+      return false;
+    }
+    if (mode === 'single' && !fitsCanvasLimits(pixelWidth, pixelHeight)) {
+      const maxHeight = maxCanvasHeightFor(pixelWidth);
+      const switchToSliced = window.confirm(
+        `当前长图尺寸 ${pixelWidth}×${pixelHeight}px，超出本浏览器的画布上限（该宽度下最高约 ${maxHeight}px），整张导出会失败。\n\n` +
+        `是否改为“切片打包”导出？也可以取消后在导出设置中降低输出宽度。`
+      );
+      if (!switchToSliced) return false;
+      mode = 'sliced';
+    }
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsDownloading(true);
+    setExportProgress({ done: 0, total: 1 });
+
+    try {
+      const raster = await createTiledRaster(node, {
+        pixelRatio,
+        backgroundColor: theme.pageBackground,
+        signal: controller.signal,
+        onProgress: (done, total) => setExportProgress({ done, total })
+      });
+      const timeStr = getFormattedTimeStr();
+      const encodeOptions = {
+        format: exportSettings.format,
+        quality: exportSettings.quality,
+        maxBytes: exportSettings.maxFileKB * 1024
+      };
+      let oversized = 0;
+
+      if (mode === 'sliced') {
+        // Cut into marketplace-friendly slices and bundle them
+        const layout = measureCutLayout(node);
+        const slices = await slicePosterRaster(raster, layout, {
+          maxHeight: exportSettings.sliceMaxHeight,
+          maxBytes: encodeOptions.maxBytes
+        }, async (slice) => (await encodeCanvas(slice, encodeOptions)).blob, controller.signal);
+
+        const zip = new JSZip();
+        slices.forEach((blob, index) => {
+          if (encodeOptions.maxBytes && blob.size > encodeOptions.maxBytes) oversized++;
+          zip.file(`详情图-${String(index + 1).padStart(2, '0')}.${extensionForBlob(blob, exportSettings.format)}`, blob);
         });
-        
-        const link = document.createElement('a');
+        const content = await zip.generateAsync({ type: "blob" });
+        // Filename format: 商品长图切片-YYYYMMDD-HHMMSS.zip
+        downloadBlob(content, `商品长图切片-${timeStr}.zip`);
+      } else {
+        // Stitch all tiles into one image
+        const canvas = await raster.getRegion(0, raster.cssHeight);
+        const { blob, fits } = await encodeCanvas(canvas, encodeOptions);
+        if (!fits) oversized++;
         // Updated filename format: 商品长图-YYYYMMDD-HHMMSS.png
-        link.download = `商品长图-${getFormattedTimeStr()}.png`;
-        link.href = dataUrl;
-        link.click();
-      } catch (error) {
-        console.error('Download failed:', error);
-        const msg = error instanceof Error ? error.message : String(error);
-        alert(`导出图片失败 (${msg})。建议使用系统截图功能作为备选方案。`);
-      } finally {
-        setIsDownloading(false);
+        downloadBlob(blob, `商品长图-${timeStr}.${extensionForBlob(blob, exportSettings.format)}`);
+      }
+
+      if (oversized > 0) {
+        alert(`⚠️ 有 ${oversized} 个文件在最低质量下仍超过 ${exportSettings.maxFileKB}KB 的体积上限，请降低输出宽度${mode === 'sliced' ? '或单张高度' : '或改用切片导出'}。`);
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return false; // Cancelled by the user
       }
+      console.error('Download failed:', error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`导出图片失败 (${msg})。建议使用系统截图功能作为备选方案。`);
+      return false;
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+      setIsDownloading(false);
+    }
+  };
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  // Export the detail page as real HTML (selectable text, crisp at any zoom)
+  const handleExportHtml = async (imageMode: HtmlImageMode) => {
+    const node = document.getElementById('poster-canvas');
+    if (!node || isExportingHtml) return;
+
+    setIsExportingHtml(true);
+    try {
+      const title = posterData.subTitle.replace(/\s+/g, ' ').trim() || '商品详情';
+      const { html, assets } = await buildPosterHtml(node, {
+        title,
+        backgroundColor: theme.pageBackground,
+        imageMode
+      });
+      const timeStr = getFormattedTimeStr();
+
+      if (imageMode === 'embedded') {
+        downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `详情页-${timeStr}.html`);
+      } else {
+        const zip = new JSZip();
+        zip.file('index.html', html);
+        assets.forEach(asset => zip.file(asset.path, asset.blob));
+        const content = await zip.generateAsync({ type: "blob" });
+        downloadBlob(content, `详情页-${timeStr}.zip`);
+      }
+      setIsHtmlExportOpen(false);
+    } catch (error) {
+      console.error('HTML export failed:', error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`导出 HTML 失败 (${msg})，请重试。`);
+    } finally {
+      setIsExportingHtml(false);
     }
   };
 
@@ -804,8 +1425,9 @@ function App() {
   const handleExportAll = async () => {
     if (isDownloading || isZipping || isSaving) return;
 
-    // 1. Download Poster (Always)
-    await handleDownload();
+    // 1. Download Poster (Always) - stop here if the user cancelled
+    const completed = await handleDownload();
+    if (!completed) return;
 
     // 2. Download Functional Images (If exist)
     if (functionalImages.length > 0) {
@@ -818,6 +1440,8 @@ function App() {
 
   // Find image to edit
   const editingFuncImage = functionalImages.find(img => img.id === editingFuncImageId);
+  const editingGallery = editingGalleryCrop && posterData.content.find(b => b.id === editingGalleryCrop.blockId)?.gallery;
+  const editingGalleryImage = editingGallery && editingGallery.images.find(img => img.id === editingGalleryCrop.imageId);
 
   return (
     <div className="min-h-screen bg-white text-[rgb(29,29,31)] font-sans flex flex-row relative">
@@ -827,7 +1451,15 @@ function App() {
         ref={projectFileInputRef}
         onChange={handleFileImportChange}
         className="hidden" 
-        accept=".json"
+        accept=".xqproj,.json"
+      />
+      {/* Hidden Input for Backup Restore */}
+      <input 
+        type="file" 
+        ref={backupFileInputRef}
+        onChange={handleBackupFileChange}
+        className="hidden" 
+        accept={`.${BACKUP_EXTENSION},.zip`}
       />
 
       {/* Crop Modal */}
@@ -838,6 +1470,122 @@ function App() {
           onClose={() => setEditingFuncImageId(null)}
         />
       )}
+      {editingGallery && editingGalleryImage && (
+        <CropModal
+          image={editingGalleryImage}
+          aspectRatio={editingGallery.aspectRatio}
+          onSave={handleSaveGalleryCrop}
+          onClose={() => setEditingGalleryCrop(null)}
+        />
+      )}
+
+      {/* Export Settings Modal */}
+      {isExportSettingsOpen && (
+        <ExportSettingsModal 
+          settings={exportSettings}
+          onSave={setExportSettings}
+          onClose={() => setIsExportSettingsOpen(false)}
+        />
+      )}
+
+      {/* HTML Export Modal */}
+      {isHtmlExportOpen && (
+        <HtmlExportModal 
+          isExporting={isExportingHtml}
+          onExport={handleExportHtml}
+          onClose={() => setIsHtmlExportOpen(false)}
+        />
+      )}
+
+      {/* Batch Generate Modal */}
+      {isBatchOpen && (
+        <BatchGenerateModal 
+          posterData={posterData}
+          imageConfig={imageConfig}
+          theme={theme}
+          layoutId={layoutId}
+          exportSettings={exportSettings}
+          onClose={() => setIsBatchOpen(false)}
+        />
+      )}
+
+      {/* Draft Version Compare */}
+      {comparingSnapshot && (
+        <SnapshotCompareModal 
+          snapshot={comparingSnapshot}
+          current={{ posterData, imageConfig, theme, layoutId }}
+          onRestore={handleRestoreSnapshot}
+          onBranch={handleBranchSnapshot}
+          onClose={() => setComparingSnapshot(null)}
+        />
+      )}
+
+      {/* Backup Restore */}
+      {pendingBackup && (
+        <BackupRestoreModal 
+          contents={pendingBackup}
+          isRestoring={isRestoringBackup}
+          onConfirm={handleConfirmRestore}
+          onClose={() => setPendingBackup(null)}
+        />
+      )}
+
+      {/* Storage Usage */}
+      {isStorageOpen && (
+        <StoragePanel 
+          onDraftsChanged={handleStorageCleaned}
+          onClose={() => setIsStorageOpen(false)}
+        />
+      )}
+
+      {/* Sync Conflict */}
+      {syncConflict && (
+        <SyncConflictModal 
+          local={syncConflict.record}
+          remote={syncConflict.error.remote}
+          isBusy={isResolvingConflict}
+          onOverwrite={handleConflictOverwrite}
+          onSaveCopy={handleConflictSaveCopy}
+          onLoadRemote={handleConflictLoadRemote}
+          onClose={() => setSyncConflict(null)}
+        />
+      )}
+
+      {/* Session Recovery Prompt */}
+      {pendingSession && (
+        <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+             <div className="p-5 border-b border-slate-100">
+               <h3 className="font-bold text-lg flex items-center gap-2">
+                 <RotateCcw className="w-5 h-5 text-indigo-600"/> 恢复未保存的编辑
+               </h3>
+             </div>
+             <div className="p-6 space-y-2 text-sm text-slate-600">
+               <p>
+                 上次关闭页面时有未保存的修改
+                 {pendingSession.draftName ? `（草稿“${pendingSession.draftName}”）` : ''}，
+                 自动暂存于 {new Date(pendingSession.savedAt).toLocaleString()}。
+               </p>
+               <p className="text-xs text-slate-400">放弃后这些修改将无法找回。</p>
+             </div>
+             <div className="p-4 bg-slate-50 flex gap-3 justify-end border-t border-slate-100">
+                <button 
+                  onClick={handleDiscardSession}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                  放弃
+                </button>
+                <button 
+                  onClick={handleRestoreSession}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2"
+                >
+                  <RotateCcw size={16} />
+                  恢复编辑
+                </button>
+             </div>
+          </div>
+        </div>
+      )}
 
       {/* Custom Save Modal - Text Updated */}
       {isSaveModalOpen && (
@@ -926,6 +1674,23 @@ function App() {
           
           {/* History & Project Controls */}
           <div className="flex items-center gap-2">
+            <button 
+              onClick={undo}
+              disabled={!history.canUndo}
+              className="p-1.5 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors disabled:text-slate-300 disabled:hover:bg-white disabled:cursor-not-allowed"
+              title="撤销 (Ctrl+Z)"
+            >
+              <Undo2 size={14} />
+            </button>
+            <button 
+              onClick={redo}
+              disabled={!history.canRedo}
+              className="p-1.5 border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors disabled:text-slate-300 disabled:hover:bg-white disabled:cursor-not-allowed"
+              title="重做 (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={14} />
+            </button>
+            <div className="w-px h-4 bg-slate-200 mx-1"></div>
             <button 
               onClick={handleImportClick}
               disabled={isImporting}
@@ -941,11 +1706,27 @@ function App() {
               onClick={handleSaveToLocalFile}
               disabled={isSaving}
               className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors"
-              title="将当前工程保存为 .json 文件到电脑"
+              title="将当前工程保存为 .xqproj 工程包（含原始图片）到电脑"
             >
               {isSaving ? <Loader2 size={14} className="animate-spin" /> : <HardDriveDownload size={14} />}
               导出工程
             </button>
+            <button 
+              onClick={() => setIsHtmlExportOpen(true)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors"
+              title="导出为可直接发布的 HTML 页面"
+            >
+              <Code2 size={14} />
+              导出 HTML
+            </button>
+            <button 
+              onClick={() => setIsBatchOpen(true)}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-slate-200 rounded-md text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors"
+              title="以当前工程为模板，按 CSV/Excel 表格批量生成详情图"
+            >
+              <Table2 size={14} />
+              批量生成
+            </button>
             <div className="w-px h-4 bg-slate-200 mx-1"></div>
             <button 
               onClick={() => setShowHistory(!showHistory)}
@@ -954,59 +1735,42 @@ function App() {
               }`}
               title="查看浏览器缓存的历史记录"
             >
-              <History size={14} /> 记录
+              <History size={14} /> 草稿库
             </button>
           </div>
         </div>
 
-        {/* History Panel Overlay - Text Updated */}
+        {/* Draft Library Overlay */}
         {showHistory && (
-          <div className="absolute top-[100px] right-0 left-0 bottom-0 bg-white/95 backdrop-blur-sm z-50 px-[55px] py-8 border-b border-slate-200 flex flex-col shadow-xl animate-in slide-in-from-top-4 duration-200">
-             <div className="flex items-center justify-between mb-4">
-               <h3 className="text-lg font-bold flex items-center gap-2">
-                 <Clock className="w-5 h-5 text-indigo-500"/> 历史存档 (IndexedDB)
-               </h3>
-               <button onClick={() => setShowHistory(false)} className="p-2 hover:bg-slate-100 rounded-full">
-                 <X size={20} className="text-slate-500" />
-               </button>
-             </div>
-             
-             <div className="flex-1 overflow-y-auto space-y-3 pr-2">
-               {savedRecords.length === 0 ? (
-                 <div className="text-center py-12 text-slate-400 border border-dashed border-slate-200 rounded-lg">暂无保存记录</div>
-               ) : (
-                 savedRecords.map(record => (
-                   <div key={record.id} className={`flex items-center justify-between p-4 border rounded-lg transition-colors group ${currentDraftId === record.id ? 'bg-indigo-50 border-indigo-300' : 'bg-slate-50 border-slate-200 hover:border-indigo-300'}`}>
-                      <div className="flex flex-col cursor-pointer flex-1" onClick={() => handleLoadRecord(record)}>
-                        <span className={`font-medium group-hover:text-indigo-700 ${currentDraftId === record.id ? 'text-indigo-800' : 'text-slate-800'}`}>
-                           {record.name}
-                           {currentDraftId === record.id && <span className="ml-2 text-[10px] bg-indigo-200 text-indigo-800 px-1.5 py-0.5 rounded-full">当前编辑</span>}
-                        </span>
-                        <span className="text-xs text-slate-400">{new Date(record.timestamp).toLocaleString()}</span>
-                      </div>
-                      <div className="flex items-center gap-3">
-                        <button 
-                          onClick={() => handleLoadRecord(record)}
-                          className="px-3 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors"
-                        >
-                          重新编辑
-                        </button>
-                        <button 
-                          onClick={(e) => handleDeleteRecord(record.id, e)}
-                          className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
-                          title="删除记录"
-                        >
-                          <Trash2 size={16} />
-                        </button>
-                      </div>
-                   </div>
-                 ))
-               )}
-             </div>
-             <div className="mt-4 pt-4 border-t border-slate-100 text-[10px] text-slate-400 text-center">
-               * 记录保存在您浏览器的 IndexedDB 数据库中，容量通常可达 GB 级别，清除浏览器数据会丢失记录。
-             </div>
-          </div>
+          <DraftLibrary 
+            records={savedRecords}
+            currentDraftId={currentDraftId}
+            onLoad={handleLoadRecord}
+            onDelete={handleDeleteDrafts}
+            onExport={handleExportDrafts}
+            onUpdateMeta={handleUpdateDraftMeta}
+            expandedDraftId={expandedDraftId}
+            snapshots={draftSnapshots}
+            onToggleSnapshots={handleToggleSnapshots}
+            onCompareSnapshot={setComparingSnapshot}
+            onRestoreSnapshot={handleRestoreSnapshot}
+            onBranchSnapshot={handleBranchSnapshot}
+            snapshotLimit={snapshotLimit}
+            onSnapshotLimitChange={setSnapshotLimit}
+            onSnapshotLimitCommit={handleSnapshotLimitCommit}
+            storageKind={storage.kind}
+            storageLabel={storage.label}
+            rememberedFolder={rememberedFolder}
+            rememberedServer={rememberedServer}
+            canUseFolder={isFolderStorageSupported}
+            onSelectStorage={handleSelectStorage}
+            supportsHistory={storage.supportsHistory}
+            isBackingUp={isBackingUp}
+            onBackupAll={handleBackupAll}
+            onRestoreBackup={() => backupFileInputRef.current?.click()}
+            onOpenStorage={() => setIsStorageOpen(true)}
+            onClose={() => setShowHistory(false)}
+          />
         )}
 
         {/* Content Section - Scrollable */}
@@ -1145,6 +1909,59 @@ function App() {
                 />
               </div>
 
+              {/* Marketing Copy */}
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-xs font-medium text-slate-500">营销文案</label>
+                  <div className="flex items-center gap-2">
+                    <select 
+                      value={posterData.marketingCopyStyle?.position || 'afterTitle'}
+                      onChange={(e) => handleMarketingStyleChange({ position: e.target.value as MarketingCopyPosition })}
+                      className="bg-transparent border-none p-0 text-[10px] focus:ring-0 cursor-pointer text-slate-600"
+                      title="文案位置"
+                    >
+                      <option value="afterTitle">标题下方</option>
+                      <option value="beforeContent">详情内容之前</option>
+                    </select>
+                    <button 
+                      onClick={() => handleMarketingStyleChange({ visible: posterData.marketingCopyStyle?.visible === false })}
+                      className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] transition-colors ${
+                        posterData.marketingCopyStyle?.visible === false ? 'text-slate-400 hover:bg-slate-100' : 'text-indigo-600 bg-indigo-50 hover:bg-indigo-100'
+                      }`}
+                      title={posterData.marketingCopyStyle?.visible === false ? '在详情页中显示' : '在详情页中隐藏'}
+                    >
+                      {posterData.marketingCopyStyle?.visible === false ? <><EyeOff size={12} /> 已隐藏</> : <><Eye size={12} /> 显示中</>}
+                    </button>
+                  </div>
+                </div>
+                <RichTextEditor 
+                  value={posterData.marketingCopy}
+                  onChange={(val) => handleDataChange('marketingCopy', val)}
+                  minHeight="80px"
+                  className={`w-full ${posterData.marketingCopyStyle?.visible === false ? 'opacity-60' : ''}`}
+                />
+                <div className="flex items-center gap-1 mt-2">
+                  {([
+                    ['left', AlignLeft, '左对齐'],
+                    ['center', AlignCenter, '居中对齐'],
+                    ['right', AlignRight, '右对齐'],
+                    ['justify', AlignJustify, '两端对齐']
+                  ] as const).map(([align, Icon, title]) => {
+                    const current = posterData.marketingCopyStyle?.textAlign || 'justify';
+                    return (
+                      <button 
+                        key={align}
+                        className={`p-1 rounded hover:bg-slate-200 ${current === align ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400'}`}
+                        onClick={() => handleMarketingStyleChange({ textAlign: align })}
+                        title={title}
+                      >
+                        <Icon className="w-3 h-3" />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
               {/* Dynamic Details List */}
               <div className="space-y-2">
                  <div className="flex items-center justify-between">
@@ -1230,9 +2047,11 @@ function App() {
                   {posterData.content.map((block, index) => (
                     <div 
                       key={block.id} 
-                      className={`relative group transition-all flex gap-2 items-start py-2 ${
+                      className={`relative group transition-all flex gap-2 items-start py-2 rounded-lg ${
                         draggedBlockIndex === index ? 'opacity-50' : ''
-                      }`}
+                      } ${activeBlockId === block.id ? 'bg-indigo-50/60 ring-1 ring-indigo-200' : ''}`}
+                      data-block-card={block.id}
+                      onFocus={() => handleSidebarBlockFocus(block.id)}
                       // Critical Fix: Only make draggable if dragging is active (initiated from handle) or checking the active ID
                       draggable={activeDragId === block.id || draggedBlockIndex === index}
                       onDragStart={() => handleDragStart(index)}
@@ -1258,7 +2077,7 @@ function App() {
                               {/* Replaced Textarea with RichTextEditor */}
                               <RichTextEditor 
                                 value={block.value}
-                                onChange={(val) => handleBlockChange(block.id, val)}
+                                onChange={(val) => handleBlockChange(block.id, val, { group: `block:${block.id}` })}
                                 className="w-full"
                                 minHeight="100px"
                               />
@@ -1296,6 +2115,28 @@ function App() {
                                 </button>
                             </div>
                           </div>
+                        ) : block.type === 'table' ? (
+                          <div className="flex gap-2 items-start">
+                            <TableIcon className="w-4 h-4 text-slate-300 shrink-0 mt-2" />
+                            <TableEditor
+                              table={block.table || createTable()}
+                              onChange={(table, options) => handleBlockTableChange(block.id, table, options)}
+                              historyGroup={`table:${block.id}`}
+                            />
+                          </div>
+                        ) : block.type === 'gallery' ? (
+                          <div className="flex gap-2 items-start">
+                            <LayoutGrid className="w-4 h-4 text-slate-300 shrink-0 mt-2" />
+                            <GalleryEditor
+                              gallery={block.gallery || createGallery()}
+                              onChange={(gallery, options) => handleBlockGalleryChange(block.id, gallery, options)}
+                              historyGroup={`gallery:${block.id}`}
+                              onUpload={(files) => handleGalleryUpload(block.id, files)}
+                              onReplace={(imageId, file) => handleGalleryImageReplace(block.id, imageId, file)}
+                              onCrop={(imageId) => setEditingGalleryCrop({ blockId: block.id, imageId })}
+                              isProcessing={uploadingGalleryId === block.id}
+                            />
+                          </div>
                         ) : (
                           <div className="flex flex-col gap-2">
                             <div className="flex gap-2 items-center">
@@ -1337,7 +2178,7 @@ function App() {
                                   max="600" 
                                   step="10"
                                   value={block.style?.height || 0}
-                                  onChange={(e) => handleBlockStyleChange(block.id, { height: Number(e.target.value) })}
+                                  onChange={(e) => handleBlockStyleChange(block.id, { height: Number(e.target.value) }, { group: `block-height:${block.id}` })}
                                   onMouseDown={(e) => e.stopPropagation()} // Prevent focus loss
                                   className="w-16 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                                 />
@@ -1348,7 +2189,7 @@ function App() {
                                     value={block.style?.height || ''}
                                     onChange={(e) => {
                                       const val = parseInt(e.target.value) || 0;
-                                      handleBlockStyleChange(block.id, { height: val });
+                                      handleBlockStyleChange(block.id, { height: val }, { group: `block-height:${block.id}` });
                                     }}
                                     placeholder="自适应"
                                     className="w-10 text-right bg-transparent border-b border-slate-300 focus:border-indigo-500 focus:outline-none p-0 text-[10px] font-mono appearance-none"
@@ -1371,6 +2212,17 @@ function App() {
                                 </select>
                               </div>
                             )}
+
+                            {/* Alt Text (used by HTML export) */}
+                            {block.value && (
+                              <input 
+                                type="text"
+                                value={block.alt || ''}
+                                onChange={(e) => handleBlockAltChange(block.id, e.target.value)}
+                                placeholder="图片说明（alt 文本，用于 HTML 导出与无障碍）"
+                                className="ml-6 p-2 text-[10px] bg-slate-50 border border-slate-200 rounded focus:border-indigo-500 focus:outline-none"
+                              />
+                            )}
                           </div>
                         )}
                       </div>
@@ -1400,12 +2252,53 @@ function App() {
                   >
                     <Plus className="w-3 h-3" /> 添加图片
                   </button>
+                  <button 
+                     onClick={() => handleAddBlock('table')}
+                     className="flex-1 py-2 border border-dashed border-slate-300 text-slate-500 rounded hover:border-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 text-xs font-medium flex items-center justify-center gap-1 transition-all"
+                  >
+                    <Plus className="w-3 h-3" /> 添加表格
+                  </button>
+                  <button 
+                     onClick={() => handleAddBlock('gallery')}
+                     className="flex-1 py-2 border border-dashed border-slate-300 text-slate-500 rounded hover:border-indigo-400 hover:text-indigo-600 hover:bg-indigo-50 text-xs font-medium flex items-center justify-center gap-1 transition-all"
+                  >
+                    <Plus className="w-3 h-3" /> 添加图组
+                  </button>
                 </div>
               </div>
 
             </div>
           </section>
 
+          <hr className="border-slate-100" />
+
+          {/* STEP 3: Layout Template */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-bold text-[rgb(29,29,31)] uppercase tracking-wider flex items-center gap-2">
+                <LayoutDashboard className="w-4 h-4 text-indigo-600"/>
+                3. 版式模板
+              </h2>
+            </div>
+            <LayoutPicker layoutId={layoutId} onChange={handleLayoutChange} />
+          </section>
+
+          <hr className="border-slate-100" />
+
+          {/* STEP 4: Theme */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-bold text-[rgb(29,29,31)] uppercase tracking-wider flex items-center gap-2">
+                <Palette className="w-4 h-4 text-indigo-600"/>
+                4. 主题风格
+              </h2>
+            </div>
+            <ThemeEditor theme={theme} onChange={handleThemeChange} />
+            <p className="text-[10px] text-slate-400">
+              * 主题随工程一起保存，预览与导出均使用当前主题。
+            </p>
+          </section>
+
         </div>
 
         {/* Footer Actions */}
@@ -1413,8 +2306,14 @@ function App() {
           <button 
             onClick={handleOpenSaveModal}
             disabled={isSaving || isDownloading || isZipping}
-            className="flex-1 py-3 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 shadow-sm"
+            className="relative flex-1 py-3 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 shadow-sm"
+            title={isDirty
+              ? `有未保存的修改${lastAutosaveAt ? `（已于 ${new Date(lastAutosaveAt).toLocaleTimeString()} 自动暂存）` : ''}`
+              : '所有修改已保存'}
           >
+            {isDirty && !isSaving && (
+              <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-amber-400" />
+            )}
             {isSaving ? (
               <>
                <RefreshCw className="w-4 h-4 animate-spin text-slate-400" />
@@ -1439,7 +2338,11 @@ function App() {
             {(isDownloading || isZipping) ? (
                <>
                  <RefreshCw className="w-4 h-4 animate-spin" />
-                 {isZipping ? '打包中...' : '生成中...'}
+                 {isZipping ? '打包中...' : (
+                   exportProgress && exportProgress.total > 1
+                     ? `生成中 ${Math.round((exportProgress.done / exportProgress.total) * 100)}%`
+                     : '生成中...'
+                 )}
                </>
             ) : (
                <>
@@ -1448,6 +2351,25 @@ function App() {
                </>
             )}
           </button>
+
+          {isDownloading ? (
+            <button 
+              onClick={handleCancelExport}
+              className="px-3 py-3 bg-white border border-red-200 text-red-600 rounded-lg transition-colors flex items-center justify-center gap-1 hover:bg-red-50 shadow-sm text-sm font-medium"
+              title="取消导出"
+            >
+              <X className="w-4 h-4" /> 取消
+            </button>
+          ) : (
+            <button 
+              onClick={() => setIsExportSettingsOpen(true)}
+              disabled={isZipping}
+              className="px-3 py-3 bg-white border border-slate-300 text-slate-600 rounded-lg transition-colors flex items-center justify-center hover:bg-slate-50 hover:text-indigo-600 hover:border-indigo-300 shadow-sm"
+              title={exportSettings.mode === 'sliced' ? '导出设置（当前：切片打包）' : '导出设置（当前：整张长图）'}
+            >
+              <Settings2 className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
 
@@ -1463,7 +2385,12 @@ function App() {
               id="poster-canvas"
               data={posterData} 
               imageConfig={imageConfig}
-              onImageConfigChange={setImageConfig}
+              onImageConfigChange={handleHeaderTransformChange}
+              theme={theme}
+              layoutId={layoutId}
+              onTextEdit={handlePreviewTextEdit}
+              activeBlockId={activeBlockId}
+              onBlockActivate={handlePreviewBlockActivate}
             />
           </div>
         </div>
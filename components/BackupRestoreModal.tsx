@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { X, ArchiveRestore, AlertTriangle, Loader2 } from 'lucide-react';
+import { BackupContents, ConflictResolution } from '../services/backup';
+
+interface BackupRestoreModalProps {
+  contents: BackupContents;
+  isRestoring: boolean;
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+  onClose: () => void;
+}
+
+const RESOLUTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'keepBoth', label: '保留两者' },
+  { value: 'overwrite', label: '覆盖' },
+  { value: 'skip', label: '跳过' }
+];
+
+// Summarises a backup and lets the user decide, per draft, what happens when
+// a draft with the same id already exists locally.
+const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ contents, isRestoring, onConfirm, onClose }) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() =>
+    Object.fromEntries(contents.conflicts.map(c => [c.incoming.id, 'keepBoth' as ConflictResolution]))
+  );
+
+  const setAll = (resolution: ConflictResolution) =>
+    setResolutions(Object.fromEntries(contents.conflicts.map(c => [c.incoming.id, resolution])));
+
+  const segmentClass = (active: boolean) =>
+    `px-2 py-1 text-[11px] transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <ArchiveRestore className="w-5 h-5 text-indigo-600"/> 恢复备份
+          </h3>
+          <button onClick={onClose} disabled={isRestoring} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-5 flex-1 overflow-y-auto space-y-4">
+          <p className="text-sm text-slate-600">
+            备份时间 {new Date(contents.createdAt).toLocaleString()}，包含 {contents.drafts.length} 个草稿、
+            {contents.snapshots.length} 个历史版本、{contents.assetCount} 张图片。
+          </p>
+
+          {contents.invalid.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+              <div className="font-medium flex items-center gap-1.5">
+                <AlertTriangle size={14} /> {contents.invalid.length} 项内容无法读取，将被忽略
+              </div>
+              {contents.invalid.map((item, i) => (
+                <div key={i} className="whitespace-pre-wrap">· {item.name}：{item.reason}</div>
+              ))}
+            </div>
+          )}
+
+          {contents.conflicts.length > 0 ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">
+                  {contents.conflicts.length} 个草稿与本地重复
+                </span>
+                <div className="flex items-center gap-1 text-[11px] text-slate-400">
+                  全部设为
+                  {RESOLUTIONS.map(r => (
+                    <button key={r.value} onClick={() => setAll(r.value)} className="px-1.5 py-0.5 text-indigo-600 hover:bg-indigo-50 rounded">
+                      {r.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {contents.conflicts.map(({ incoming, existing }) => (
+                <div key={incoming.id} className="p-3 border border-slate-200 rounded-lg flex items-center justify-between gap-3">
+                  <div className="min-w-0 text-xs">
+                    <div className="font-medium text-slate-800 truncate">{incoming.name}</div>
+                    <div className="text-slate-400 mt-0.5">
+                      备份 {new Date(incoming.timestamp).toLocaleString()}
+                    </div>
+                    <div className="text-slate-400">
+                      本地 {new Date(existing.timestamp).toLocaleString()}
+                      {existing.name !== incoming.name && ` ·「${existing.name}」`}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 border border-slate-200 rounded-md overflow-hidden divide-x divide-slate-200">
+                    {RESOLUTIONS.map(r => (
+                      <button
+                        key={r.value}
+                        onClick={() => setResolutions(prev => ({ ...prev, [incoming.id]: r.value }))}
+                        className={segmentClass(resolutions[incoming.id] === r.value)}
+                      >
+                        {r.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <p className="text-[11px] text-slate-400">覆盖前，本地版本会保存到该草稿的历史版本中。</p>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">没有与本地重复的草稿，将全部合并到草稿库。</p>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 flex gap-3 justify-end border-t border-slate-100 shrink-0">
+          <button
+            onClick={onClose}
+            disabled={isRestoring}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(resolutions)}
+            disabled={isRestoring || contents.drafts.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {isRestoring ? <Loader2 size={16} className="animate-spin" /> : <ArchiveRestore size={16} />}
+            开始恢复
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestoreModal;
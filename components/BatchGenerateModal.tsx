@@ -0,0 +1,331 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import JSZip from 'jszip';
+import { X, Table2, FileSpreadsheet, FolderOpen, Download, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import PosterPreview from './PosterPreview';
+import { PosterData, ImageConfig, PosterTheme, ExportSettings } from '../types';
+import { readSpreadsheet, SpreadsheetTable } from '../services/spreadsheet';
+import { classifyColumns, buildRowDocument, buildTemplateCsv, indexImageFiles, isBlankRow, safeFileName, BatchColumn } from '../services/batchService';
+import { createTiledRaster, encodeCanvas, extensionForBlob, downloadBlob, fitsCanvasLimits, maxCanvasHeightFor, POSTER_WIDTH } from '../services/exportService';
+
+const COLUMN_LABELS: Record<BatchColumn['kind'], string> = {
+  name: '文件名',
+  subTitle: '标题',
+  marketingCopy: '营销文案',
+  header: '头图',
+  detail: '详情',
+  text: '文本',
+  image: '图片',
+  ignored: '未识别'
+};
+
+interface BatchFailure {
+  row: number; // Spreadsheet row number as shown in Excel
+  name: string;
+  reason: string;
+}
+
+interface BatchGenerateModalProps {
+  posterData: PosterData;
+  imageConfig: ImageConfig;
+  theme: PosterTheme;
+  layoutId: string;
+  exportSettings: ExportSettings;
+  onClose: () => void;
+}
+
+// Mounts a PosterPreview outside the visible page and resolves once it is in the DOM
+const mountOffscreen = (element: (onReady: () => void) => React.ReactElement) => {
+  const host = document.createElement('div');
+  host.style.cssText = 'position:fixed;left:-10000px;top:0;pointer-events:none;';
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  const ready = new Promise<void>(resolve => root.render(element(resolve)));
+  const dispose = () => {
+    root.unmount();
+    host.remove();
+  };
+  return { host, ready, dispose };
+};
+
+const ReadySignal: React.FC<{ onReady: () => void; children: React.ReactNode }> = ({ onReady, children }) => {
+  useEffect(() => {
+    onReady();
+  }, [onReady]);
+  return <>{children}</>;
+};
+
+const waitForImages = (root: HTMLElement) =>
+  Promise.all(
+    Array.from(root.querySelectorAll('img')).map(img =>
+      img.complete && img.naturalWidth ? Promise.resolve() : img.decode().catch(() => undefined)
+    )
+  );
+
+const BatchGenerateModal: React.FC<BatchGenerateModalProps> = ({ posterData, imageConfig, theme, layoutId, exportSettings, onClose }) => {
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [tableName, setTableName] = useState('');
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ succeeded: number; failures: BatchFailure[] } | null>(null);
+
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // webkitdirectory is not in React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const columns = table ? classifyColumns(table.headers) : [];
+  const dataRows = table ? table.rows.filter(row => !isBlankRow(row)).length : 0;
+  const needsImages = columns.some(c => c.kind === 'image' || c.kind === 'header');
+
+  const handleTableChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setTable(await readSpreadsheet(file));
+      setTableName(file.name);
+      setResult(null);
+    } catch (error) {
+      console.error('Spreadsheet parse failed:', error);
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`表格读取失败 (${msg})，请确认是 CSV 或 .xlsx 文件。`);
+    }
+  };
+
+  const handleImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length) setImageFiles(files);
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadBlob(new Blob([buildTemplateCsv(posterData)], { type: 'text/csv;charset=utf-8' }), '批量生成模板.csv');
+  };
+
+  const handleGenerate = async () => {
+    if (!table || isRunning) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResult(null);
+
+    const images = indexImageFiles(imageFiles);
+    const rows = table.rows
+      .map((row, i) => ({ row, rowNumber: i + 2 }))
+      .filter(({ row }) => !isBlankRow(row));
+    const pixelRatio = exportSettings.width / POSTER_WIDTH;
+    const encodeOptions = {
+      format: exportSettings.format,
+      quality: exportSettings.quality,
+      maxBytes: exportSettings.maxFileKB * 1024
+    };
+
+    const zip = new JSZip();
+    const failures: BatchFailure[] = [];
+    let succeeded = 0;
+    setProgress({ done: 0, total: rows.length });
+
+    try {
+      for (let i = 0; i < rows.length; i++) {
+        if (controller.signal.aborted) throw new DOMException('导出已取消', 'AbortError');
+        const { row, rowNumber } = rows[i];
+        let displayName = `第${rowNumber}行`;
+        let objectUrls: string[] = [];
+        let mounted: ReturnType<typeof mountOffscreen> | null = null;
+
+        try {
+          const doc = await buildRowDocument(columns, row, rowNumber, { posterData, imageConfig }, images);
+          objectUrls = doc.objectUrls;
+          if (doc.name) displayName = doc.name;
+
+          mounted = mountOffscreen(onReady => (
+            <ReadySignal onReady={onReady}>
+              <PosterPreview
+                id={`batch-poster-${rowNumber}`}
+                data={doc.posterData}
+                imageConfig={doc.imageConfig}
+                onImageConfigChange={() => {}}
+                theme={theme}
+                layoutId={layoutId}
+              />
+            </ReadySignal>
+          ));
+          await mounted.ready;
+          const node = mounted.host.querySelector<HTMLElement>(`#batch-poster-${rowNumber}`);
+          if (!node) throw new Error('渲染失败');
+          await waitForImages(node);
+
+          const pixelWidth = Math.round(node.offsetWidth * pixelRatio);
+          const pixelHeight = Math.round(node.offsetHeight * pixelRatio);
+          if (!fitsCanvasLimits(pixelWidth, pixelHeight)) {
+            throw new Error(`长图 ${pixelWidth}×${pixelHeight}px 超出画布上限（最高约 ${maxCanvasHeightFor(pixelWidth)}px），请降低输出宽度或精简内容`);
+          }
+
+          const raster = await createTiledRaster(node, {
+            pixelRatio,
+            backgroundColor: theme.pageBackground,
+            signal: controller.signal
+          });
+          const canvas = await raster.getRegion(0, raster.cssHeight);
+          const { blob } = await encodeCanvas(canvas, encodeOptions);
+          canvas.width = 0;
+          raster.release(raster.cssHeight);
+
+          const baseName = safeFileName(displayName) || `第${rowNumber}行`;
+          zip.file(`${String(succeeded + 1).padStart(3, '0')}-${baseName}.${extensionForBlob(blob, exportSettings.format)}`, blob);
+          succeeded++;
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') throw error;
+          console.error(`Batch row ${rowNumber} failed:`, error);
+          failures.push({ row: rowNumber, name: displayName, reason: error instanceof Error ? error.message : String(error) });
+        } finally {
+          mounted?.dispose();
+          objectUrls.forEach(url => URL.revokeObjectURL(url));
+        }
+
+        setProgress({ done: i + 1, total: rows.length });
+      }
+
+      if (failures.length) {
+        const escape = (v: string) => `"${v.replace(/"/g, '""')}"`;
+        const report = ['行号,名称,原因', ...failures.map(f => `${f.row},${escape(f.name)},${escape(f.reason)}`)].join('\n');
+        zip.file('失败报告.csv', '\uFEFF' + report);
+      }
+      if (succeeded > 0 || failures.length) {
+        const content = await zip.generateAsync({ type: 'blob' });
+        downloadBlob(content, `批量详情图-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}.zip`);
+      }
+      setResult({ succeeded, failures });
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Batch generation failed:', error);
+        const msg = error instanceof Error ? error.message : String(error);
+        alert(`批量生成失败 (${msg})，请重试。`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Table2 className="w-5 h-5 text-indigo-600"/> 批量生成详情图
+          </h3>
+          <button onClick={onClose} disabled={isRunning} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            以当前工程的主题、版式和头图为模板，表格中每一行生成一张长图。
+            <button onClick={handleDownloadTemplate} className="text-indigo-600 hover:underline ml-1">下载表格模板</button>
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className={`p-3 rounded-lg border border-dashed text-left transition-colors cursor-pointer ${table ? 'border-indigo-300 bg-indigo-50' : 'border-slate-300 hover:border-indigo-400'}`}>
+              <div className="text-sm font-medium flex items-center gap-1.5"><FileSpreadsheet size={14} /> 选择表格</div>
+              <div className="text-[10px] text-slate-400 mt-1 truncate">{tableName || 'CSV / XLSX，第一行为表头'}</div>
+              <input type="file" accept=".csv,.tsv,.txt,.xlsx" className="hidden" onChange={handleTableChange} disabled={isRunning} />
+            </label>
+            <label className={`p-3 rounded-lg border border-dashed text-left transition-colors cursor-pointer ${imageFiles.length ? 'border-indigo-300 bg-indigo-50' : 'border-slate-300 hover:border-indigo-400'}`}>
+              <div className="text-sm font-medium flex items-center gap-1.5"><FolderOpen size={14} /> 选择图片文件夹</div>
+              <div className="text-[10px] text-slate-400 mt-1">{imageFiles.length ? `已选择 ${imageFiles.length} 个文件` : '表格中按文件名引用图片'}</div>
+              <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleImagesChange} disabled={isRunning} />
+            </label>
+          </div>
+
+          {table && (
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+              <div className="text-xs text-slate-600">共 {dataRows} 行数据，识别到以下列：</div>
+              <div className="flex flex-wrap gap-1.5">
+                {columns.map(column => (
+                  <span
+                    key={column.index}
+                    className={`px-2 py-0.5 rounded text-[10px] border ${column.kind === 'ignored' ? 'border-slate-200 text-slate-400 line-through' : 'border-indigo-200 text-indigo-700 bg-white'}`}
+                    title={COLUMN_LABELS[column.kind]}
+                  >
+                    {column.header || '(空)'} → {column.kind === 'detail' ? `详情·${column.label}` : COLUMN_LABELS[column.kind]}
+                  </span>
+                ))}
+              </div>
+              {needsImages && !imageFiles.length && (
+                <div className="text-[10px] text-amber-600 flex items-center gap-1">
+                  <AlertCircle size={12} /> 表格引用了图片，请选择图片所在文件夹
+                </div>
+              )}
+            </div>
+          )}
+
+          {progress && (
+            <div className="space-y-1.5">
+              <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }} />
+              </div>
+              <div className="text-[10px] text-slate-500 text-center">正在生成 {progress.done}/{progress.total}</div>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <div className="text-xs text-green-700 flex items-center gap-1">
+                <CheckCircle2 size={14} /> 成功 {result.succeeded} 张{result.failures.length ? `，失败 ${result.failures.length} 行（已附失败报告.csv）` : ''}
+              </div>
+              {result.failures.length > 0 && (
+                <ul className="text-[10px] text-red-600 space-y-1 max-h-32 overflow-y-auto p-2 bg-red-50 rounded border border-red-100">
+                  {result.failures.map(failure => (
+                    <li key={failure.row}>第 {failure.row} 行（{failure.name}）：{failure.reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 flex gap-3 justify-end border-t border-slate-100">
+          {isRunning ? (
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+            >
+              取消生成
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+            >
+              关闭
+            </button>
+          )}
+          <button
+            onClick={handleGenerate}
+            disabled={!table || !dataRows || isRunning}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            生成并下载 Zip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchGenerateModal;
@@ -6,12 +6,13 @@ interface CropModalProps {
   image: HeaderImage;
   onSave: (id: string, crop: { x: number; y: number; scale: number }) => void;
   onClose: () => void;
+  aspectRatio?: number; // Viewport width / height, defaults to square
 }
 
 // Fixed preview size helps normalize calculations between UI and Export Canvas
 export const PREVIEW_SIZE = 320;
 
-const CropModal: React.FC<CropModalProps> = ({ image, onSave, onClose }) => {
+const CropModal: React.FC<CropModalProps> = ({ image, onSave, onClose, aspectRatio = 1 }) => {
   const [config, setConfig] = useState({
     x: image.crop?.x || 0,
     y: image.crop?.y || 0,
@@ -97,7 +98,7 @@ const CropModal: React.FC<CropModalProps> = ({ image, onSave, onClose }) => {
         <div className="p-8 bg-slate-100 flex flex-col items-center justify-center gap-4">
           <div 
             className="relative bg-slate-300 shadow-inner overflow-hidden cursor-move group ring-4 ring-white"
-            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE / aspectRatio }}
             onMouseDown={handleMouseDown}
             onWheel={handleWheel}
           >
@@ -0,0 +1,537 @@
+import React, { useMemo, useState } from 'react';
+import { X, Clock, Search, Trash2, History, ChevronDown, Eye, RotateCcw, GitBranch, Tag, Folder, FolderInput, HardDriveDownload, Check, CheckSquare, Square, Archive, ArchiveRestore, Loader2, Database, FolderOpen, Cloud, HardDrive } from 'lucide-react';
+import { SavedRecord } from '../types';
+import { DraftSnapshot } from '../services/db';
+import { StorageProviderKind } from '../services/storageProvider';
+
+export interface DraftMetaUpdate {
+  tags?: string[];
+  folder?: string;
+}
+
+type SortKey = 'newest' | 'oldest' | 'name';
+type DateRange = 'all' | 'today' | 'week' | 'month';
+
+// Folder filter: null = all drafts, '' = drafts without a folder
+type FolderFilter = string | null;
+
+const DATE_RANGES: Record<DateRange, { label: string; days: number }> = {
+  all: { label: '全部时间', days: 0 },
+  today: { label: '今天', days: 1 },
+  week: { label: '7 天内', days: 7 },
+  month: { label: '30 天内', days: 30 }
+};
+
+const stripHtml = (html: string) =>
+  html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+
+// Text searched for each draft: name, title and detail rows
+const searchableText = (record: SavedRecord) =>
+  [
+    record.name,
+    record.data.subTitle,
+    ...record.data.details.flatMap(d => [d.label, stripHtml(d.value)])
+  ].join('\n').toLowerCase();
+
+const parseTags = (input: string) =>
+  Array.from(new Set(input.split(/[,，;；\s]+/).map(t => t.trim()).filter(Boolean)));
+
+interface DraftLibraryProps {
+  records: SavedRecord[];
+  currentDraftId: string | null;
+  onLoad: (record: SavedRecord) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (ids: string[]) => void;
+  onUpdateMeta: (ids: string[], update: (record: SavedRecord) => DraftMetaUpdate) => void;
+  // Version history
+  expandedDraftId: string | null;
+  snapshots: DraftSnapshot[];
+  onToggleSnapshots: (draftId: string) => void;
+  onCompareSnapshot: (snapshot: DraftSnapshot) => void;
+  onRestoreSnapshot: (snapshot: DraftSnapshot) => void;
+  onBranchSnapshot: (snapshot: DraftSnapshot) => void;
+  snapshotLimit: number;
+  onSnapshotLimitChange: (limit: number) => void;
+  onSnapshotLimitCommit: () => void;
+  // Storage location
+  storageKind: StorageProviderKind;
+  storageLabel: string;
+  rememberedFolder: string | null;
+  rememberedServer: string | null;
+  canUseFolder: boolean;
+  onSelectStorage: (kind: StorageProviderKind, pickNew?: boolean) => void;
+  // Version history and full backup (IndexedDB only)
+  supportsHistory: boolean;
+  isBackingUp: boolean;
+  onBackupAll: () => void;
+  onRestoreBackup: () => void;
+  onOpenStorage: () => void;
+  onClose: () => void;
+}
+
+const DraftLibrary: React.FC<DraftLibraryProps> = ({
+  records,
+  currentDraftId,
+  onLoad,
+  onDelete,
+  onExport,
+  onUpdateMeta,
+  expandedDraftId,
+  snapshots,
+  onToggleSnapshots,
+  onCompareSnapshot,
+  onRestoreSnapshot,
+  onBranchSnapshot,
+  snapshotLimit,
+  onSnapshotLimitChange,
+  onSnapshotLimitCommit,
+  storageKind,
+  storageLabel,
+  rememberedFolder,
+  rememberedServer,
+  canUseFolder,
+  onSelectStorage,
+  supportsHistory,
+  isBackingUp,
+  onBackupAll,
+  onRestoreBackup,
+  onOpenStorage,
+  onClose
+}) => {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('newest');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Inline tag / folder editor
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState('');
+  const [editFolder, setEditFolder] = useState('');
+
+  const folders = useMemo(
+    () => Array.from(new Set<string>(records.map(r => r.folder).filter((f): f is string => !!f))).sort((a, b) => a.localeCompare(b, 'zh-CN')),
+    [records]
+  );
+  const tags = useMemo(
+    () => Array.from(new Set<string>(records.flatMap(r => r.tags || []))).sort((a, b) => a.localeCompare(b, 'zh-CN')),
+    [records]
+  );
+
+  const visibleRecords = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const since = DATE_RANGES[dateRange].days ? Date.now() - DATE_RANGES[dateRange].days * 86400000 : 0;
+
+    const filtered = records.filter(record => {
+      if (folderFilter !== null && (record.folder || '') !== folderFilter) return false;
+      if (tagFilter.length && !tagFilter.every(tag => record.tags?.includes(tag))) return false;
+      if (since && record.timestamp < since) return false;
+      if (terms.length) {
+        const text = searchableText(record);
+        if (!terms.every(term => text.includes(term))) return false;
+      }
+      return true;
+    });
+
+    return filtered.sort((a, b) => {
+      if (sortKey === 'name') return a.name.localeCompare(b.name, 'zh-CN');
+      return sortKey === 'oldest' ? a.timestamp - b.timestamp : b.timestamp - a.timestamp;
+    });
+  }, [records, query, sortKey, dateRange, folderFilter, tagFilter]);
+
+  // Selection only counts drafts that are still listed
+  const selected = visibleRecords.filter(r => selectedIds.has(r.id)).map(r => r.id);
+  const allSelected = visibleRecords.length > 0 && selected.length === visibleRecords.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visibleRecords.map(r => r.id)));
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const startEditing = (record: SavedRecord) => {
+    setEditingId(record.id);
+    setEditTags((record.tags || []).join(', '));
+    setEditFolder(record.folder || '');
+  };
+
+  const saveEditing = () => {
+    if (!editingId) return;
+    const update = { tags: parseTags(editTags), folder: editFolder.trim() };
+    onUpdateMeta([editingId], () => update);
+    setEditingId(null);
+  };
+
+  const handleBulkMove = () => {
+    const folder = window.prompt(`将选中的 ${selected.length} 个草稿移动到文件夹（留空则移出文件夹）：`, folderFilter || '');
+    if (folder === null) return;
+    onUpdateMeta(selected, () => ({ folder: folder.trim() }));
+  };
+
+  const handleBulkTag = () => {
+    const input = window.prompt(`为选中的 ${selected.length} 个草稿添加标签（多个用逗号分隔）：`);
+    if (!input) return;
+    const added = parseTags(input);
+    onUpdateMeta(selected, record => ({ tags: Array.from(new Set([...(record.tags || []), ...added])) }));
+  };
+
+  const handleBulkDelete = () => {
+    onDelete(selected);
+    setSelectedIds(new Set());
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-full text-[11px] border transition-colors ${active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`;
+
+  return (
+    <div className="absolute top-[100px] right-0 left-0 bottom-0 bg-white/95 backdrop-blur-sm z-50 px-[55px] py-8 border-b border-slate-200 flex flex-col shadow-xl animate-in slide-in-from-top-4 duration-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Clock className="w-5 h-5 text-indigo-500"/> 草稿库
+          <span className="text-xs font-normal text-slate-400">{records.length} 个草稿</span>
+        </h3>
+        <div className="flex items-center gap-1">
+          {supportsHistory && (
+            <>
+              <button
+                onClick={onBackupAll}
+                disabled={isBackingUp || records.length === 0}
+                className="px-2.5 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md flex items-center gap-1.5 disabled:opacity-50"
+                title="打包全部草稿、历史版本和图片"
+              >
+                {isBackingUp ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}
+                备份全部
+              </button>
+              <button
+                onClick={onRestoreBackup}
+                disabled={isBackingUp}
+                className="px-2.5 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <ArchiveRestore size={14} />
+                恢复备份
+              </button>
+            </>
+          )}
+          <button
+            onClick={onOpenStorage}
+            className="px-2.5 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md flex items-center gap-1.5"
+            title="查看浏览器存储用量并清理"
+          >
+            <HardDrive size={14} />
+            存储空间
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+      </div>
+
+      {/* Storage Location */}
+      <div className="flex items-center gap-2 mb-3 text-xs text-slate-500">
+        存储位置
+        <button onClick={() => onSelectStorage('indexeddb')} className={`${chipClass(storageKind === 'indexeddb')} flex items-center gap-1`}>
+          <Database size={12} /> 浏览器存储
+        </button>
+        {canUseFolder && (
+          <button
+            onClick={() => onSelectStorage('folder')}
+            className={`${chipClass(storageKind === 'folder')} flex items-center gap-1`}
+            title={storageKind !== 'folder' && rememberedFolder ? '重新授权访问该文件夹' : undefined}
+          >
+            <FolderOpen size={12} />
+            {storageKind === 'folder' ? storageLabel : rememberedFolder || '本地文件夹...'}
+          </button>
+        )}
+        {canUseFolder && rememberedFolder && (
+          <button onClick={() => onSelectStorage('folder', true)} className="text-indigo-600 hover:underline">
+            更换文件夹
+          </button>
+        )}
+        <button onClick={() => onSelectStorage('remote')} className={`${chipClass(storageKind === 'remote')} flex items-center gap-1`}>
+          <Cloud size={12} />
+          {storageKind === 'remote' ? storageLabel : rememberedServer ? rememberedServer.replace(/^https?:\/\//, '') : '团队服务器...'}
+        </button>
+        {rememberedServer && (
+          <button onClick={() => onSelectStorage('remote', true)} className="text-indigo-600 hover:underline">
+            更换服务器
+          </button>
+        )}
+      </div>
+
+      {/* Search & Sort */}
+      <div className="flex items-center gap-2 mb-3">
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索名称、标题、详情..."
+            className="w-full pl-8 pr-3 py-1.5 text-xs bg-white border border-slate-200 rounded-md focus:border-indigo-500 focus:outline-none"
+          />
+        </div>
+        <select
+          value={dateRange}
+          onChange={(e) => setDateRange(e.target.value as DateRange)}
+          className="px-2 py-1.5 text-xs bg-white border border-slate-200 rounded-md focus:border-indigo-500 focus:outline-none"
+        >
+          {(Object.keys(DATE_RANGES) as DateRange[]).map(key => (
+            <option key={key} value={key}>{DATE_RANGES[key].label}</option>
+          ))}
+        </select>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+          className="px-2 py-1.5 text-xs bg-white border border-slate-200 rounded-md focus:border-indigo-500 focus:outline-none"
+        >
+          <option value="newest">最近保存</option>
+          <option value="oldest">最早保存</option>
+          <option value="name">按名称</option>
+        </select>
+      </div>
+
+      {/* Folders & Tags */}
+      <div className="space-y-2 mb-3">
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <Folder size={13} className="text-slate-400 mr-0.5" />
+          <button onClick={() => setFolderFilter(null)} className={chipClass(folderFilter === null)}>全部</button>
+          <button onClick={() => setFolderFilter('')} className={chipClass(folderFilter === '')}>未归档</button>
+          {folders.map(folder => (
+            <button key={folder} onClick={() => setFolderFilter(folder)} className={chipClass(folderFilter === folder)}>{folder}</button>
+          ))}
+        </div>
+        {tags.length > 0 && (
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <Tag size={13} className="text-slate-400 mr-0.5" />
+            {tags.map(tag => (
+              <button key={tag} onClick={() => toggleTagFilter(tag)} className={chipClass(tagFilter.includes(tag))}>#{tag}</button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      <div className="flex items-center gap-2 mb-3 text-xs text-slate-600 min-h-[28px]">
+        <button onClick={toggleAll} disabled={!visibleRecords.length} className="flex items-center gap-1 hover:text-indigo-600 disabled:opacity-40">
+          {allSelected ? <CheckSquare size={14} /> : <Square size={14} />} 全选
+        </button>
+        {selected.length > 0 && (
+          <>
+            <span className="text-slate-400">已选 {selected.length} 项</span>
+            <div className="flex-1" />
+            <button onClick={handleBulkMove} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 hover:text-indigo-600">
+              <FolderInput size={13} /> 移动到
+            </button>
+            <button onClick={handleBulkTag} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 hover:text-indigo-600">
+              <Tag size={13} /> 加标签
+            </button>
+            <button onClick={() => onExport(selected)} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 hover:text-indigo-600">
+              <HardDriveDownload size={13} /> 导出
+            </button>
+            <button onClick={handleBulkDelete} className="flex items-center gap-1 px-2 py-1 rounded text-red-600 hover:bg-red-50">
+              <Trash2 size={13} /> 删除
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3 pr-2">
+        {visibleRecords.length === 0 ? (
+          <div className="text-center py-12 text-slate-400 border border-dashed border-slate-200 rounded-lg">
+            {records.length === 0 ? '暂无保存记录' : '没有符合条件的草稿'}
+          </div>
+        ) : (
+          visibleRecords.map(record => (
+            <div key={record.id}>
+              <div className={`flex items-center justify-between p-4 border rounded-lg transition-colors group ${currentDraftId === record.id ? 'bg-indigo-50 border-indigo-300' : 'bg-slate-50 border-slate-200 hover:border-indigo-300'}`}>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(record.id)}
+                  onChange={() => toggleSelected(record.id)}
+                  className="w-4 h-4 mr-3 text-indigo-600 bg-white rounded focus:ring-indigo-500 border-gray-300 shrink-0"
+                />
+                {record.thumbnail ? (
+                  <img src={record.thumbnail} alt="" className="w-10 h-[53px] object-cover object-top rounded border border-slate-200 mr-3 cursor-pointer shrink-0" onClick={() => onLoad(record)} />
+                ) : (
+                  <div className="w-10 h-[53px] rounded bg-slate-100 border border-slate-200 mr-3 shrink-0" />
+                )}
+                <div className="flex flex-col cursor-pointer flex-1 min-w-0" onClick={() => onLoad(record)}>
+                  <span className={`font-medium truncate group-hover:text-indigo-700 ${currentDraftId === record.id ? 'text-indigo-800' : 'text-slate-800'}`}>
+                    {record.name}
+                    {currentDraftId === record.id && <span className="ml-2 text-[10px] bg-indigo-200 text-indigo-800 px-1.5 py-0.5 rounded-full">当前编辑</span>}
+                  </span>
+                  <span className="text-xs text-slate-400">{new Date(record.timestamp).toLocaleString()}</span>
+                  {(record.folder || record.tags?.length) ? (
+                    <div className="flex items-center gap-1 flex-wrap mt-1">
+                      {record.folder && (
+                        <span className="text-[10px] text-slate-500 flex items-center gap-0.5"><Folder size={10} /> {record.folder}</span>
+                      )}
+                      {record.tags?.map(tag => (
+                        <span key={tag} className="text-[10px] text-indigo-600 bg-indigo-50 px-1.5 rounded">#{tag}</span>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => startEditing(record)}
+                    className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                    title="编辑标签与文件夹"
+                  >
+                    <Tag size={14} />
+                  </button>
+                  {supportsHistory && (
+                    <button
+                      onClick={() => onToggleSnapshots(record.id)}
+                      className={`flex items-center gap-0.5 px-2 py-1 text-xs rounded transition-colors ${expandedDraftId === record.id ? 'text-indigo-600 bg-indigo-100' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                      title="查看历史版本"
+                    >
+                      <History size={14} /> 版本
+                      <ChevronDown size={12} className={`transition-transform ${expandedDraftId === record.id ? 'rotate-180' : ''}`} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onLoad(record)}
+                    className="px-3 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors"
+                  >
+                    重新编辑
+                  </button>
+                  <button
+                    onClick={() => onDelete([record.id])}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="删除记录"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              {/* Tag & folder editor */}
+              {editingId === record.id && (
+                <div className="ml-6 mt-2 p-3 bg-white border border-indigo-200 rounded-lg flex items-center gap-2">
+                  <input
+                    autoFocus
+                    type="text"
+                    value={editTags}
+                    onChange={(e) => setEditTags(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+                    placeholder="标签，逗号分隔"
+                    className="flex-1 px-2 py-1 text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    list="draft-library-folders"
+                    value={editFolder}
+                    onChange={(e) => setEditFolder(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+                    placeholder="文件夹"
+                    className="w-28 px-2 py-1 text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none"
+                  />
+                  <button onClick={saveEditing} className="p-1.5 text-white bg-indigo-600 hover:bg-indigo-700 rounded" title="保存">
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="取消">
+                    <X size={14} />
+                  </button>
+                </div>
+              )}
+
+              {/* Earlier versions of this draft */}
+              {expandedDraftId === record.id && (
+                <div className="ml-6 mt-2 pl-4 border-l-2 border-indigo-100 space-y-2">
+                  {snapshots.length === 0 ? (
+                    <div className="text-xs text-slate-400 py-2">暂无历史版本，覆盖保存后会自动保留旧版本</div>
+                  ) : (
+                    snapshots.map(snapshot => (
+                      <div key={snapshot.id} className="flex items-center gap-3 p-2 bg-white border border-slate-200 rounded-lg hover:border-indigo-300 transition-colors">
+                        {snapshot.thumbnail ? (
+                          <img src={snapshot.thumbnail} alt="" className="w-8 h-[43px] object-cover object-top rounded border border-slate-200" />
+                        ) : (
+                          <div className="w-8 h-[43px] rounded bg-slate-100 border border-slate-200" />
+                        )}
+                        <div className="flex flex-col flex-1 min-w-0">
+                          <span className="text-xs font-medium text-slate-700 truncate">{snapshot.name}</span>
+                          <span className="text-[10px] text-slate-400">{new Date(snapshot.savedAt).toLocaleString()}</span>
+                        </div>
+                        <button
+                          onClick={() => onCompareSnapshot(snapshot)}
+                          className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                          title="预览并与当前编辑对比"
+                        >
+                          <Eye size={14} />
+                        </button>
+                        <button
+                          onClick={() => onRestoreSnapshot(snapshot)}
+                          className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                          title="恢复此版本"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                        <button
+                          onClick={() => onBranchSnapshot(snapshot)}
+                          className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                          title="另存为新草稿"
+                        >
+                          <GitBranch size={14} />
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+        <datalist id="draft-library-folders">
+          {folders.map(folder => <option key={folder} value={folder} />)}
+        </datalist>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 space-y-2">
+        {supportsHistory ? (
+          <>
+            <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+              每个草稿保留
+              <input
+                type="number"
+                min="0"
+                max="200"
+                value={snapshotLimit}
+                onChange={(e) => onSnapshotLimitChange(Math.max(0, Math.min(200, parseInt(e.target.value) || 0)))}
+                onBlur={onSnapshotLimitCommit}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-14 px-2 py-0.5 text-right text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none font-mono"
+              />
+              个历史版本（0 为不保留）
+            </div>
+            <div className="text-[10px] text-slate-400 text-center">
+              * 记录保存在您浏览器的 IndexedDB 数据库中，容量通常可达 GB 级别，清除浏览器数据会丢失记录。
+            </div>
+          </>
+        ) : storageKind === 'remote' ? (
+          <div className="text-[10px] text-slate-400 text-center">
+            * 草稿保存在团队同步服务器上；离线时改用浏览器存储，恢复联网后自动上传。服务器存储不保留历史版本。
+          </div>
+        ) : (
+          <div className="text-[10px] text-slate-400 text-center">
+            * 每个草稿以 .xqproj 文件保存在文件夹“{storageLabel}”中，可放在同步盘里与团队共享；文件夹存储不保留历史版本。
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DraftLibrary;
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { X, Check, Settings2, Image as ImageIcon, Scissors } from 'lucide-react';
+import { ExportSettings, ExportFormat } from '../types';
+import { EXPORT_FORMATS, EXPORT_QUALITY_RANGE, EXPORT_WIDTH_RANGE, MIN_SLICE_HEIGHT } from '../services/exportSettings';
+
+// Common marketplace detail-page widths
+const WIDTH_PRESETS: { width: number; label: string }[] = [
+  { width: 750, label: '750 (淘宝/拼多多)' },
+  { width: 790, label: '790 (京东)' },
+  { width: 1125, label: '1125 (高清)' }
+];
+
+interface ExportSettingsModalProps {
+  settings: ExportSettings;
+  onSave: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+const ExportSettingsModal: React.FC<ExportSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ExportSettings>(settings);
+
+  const update = (patch: Partial<ExportSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  const isSliced = draft.mode === 'sliced';
+  const isLossy = EXPORT_FORMATS[draft.format].lossy;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Settings2 className="w-5 h-5 text-indigo-600"/> 导出设置
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">图片格式</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => update({ format })}
+                  className={`py-2 rounded-lg border text-sm font-medium transition-colors ${draft.format === format ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                >
+                  {EXPORT_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Width */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">输出宽度</label>
+            <div className="flex items-center gap-2 flex-wrap">
+              {WIDTH_PRESETS.map(preset => (
+                <button
+                  key={preset.width}
+                  onClick={() => update({ width: preset.width })}
+                  className={`px-2.5 py-1.5 rounded-md border text-xs transition-colors ${draft.width === preset.width ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <div className="flex items-center gap-1 ml-auto">
+                <input
+                  type="number"
+                  min={EXPORT_WIDTH_RANGE.min}
+                  max={EXPORT_WIDTH_RANGE.max}
+                  step="10"
+                  value={draft.width}
+                  onChange={(e) => update({ width: Math.max(0, parseInt(e.target.value) || 0) })}
+                  // Typed values may run past the limits; clamped once the field is left
+                  onBlur={() => update({ width: Math.min(EXPORT_WIDTH_RANGE.max, Math.max(EXPORT_WIDTH_RANGE.min, draft.width)) })}
+                  className="w-20 px-2 py-1 text-right text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none font-mono"
+                />
+                <span className="text-[10px] text-slate-400 w-6">px</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Quality & Size */}
+          <div className="space-y-3">
+            <div className={`flex items-center gap-3 ${isLossy ? '' : 'opacity-40 pointer-events-none'}`}>
+              <label className="text-xs text-slate-600 w-20 shrink-0">图片质量</label>
+              <input
+                type="range"
+                min={EXPORT_QUALITY_RANGE.min}
+                max={EXPORT_QUALITY_RANGE.max}
+                step="0.05"
+                value={draft.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="flex-1 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+              <span className="w-10 text-right text-xs font-mono text-slate-600">{Math.round(draft.quality * 100)}%</span>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <label className="text-xs text-slate-600">单个文件最大体积</label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  value={draft.maxFileKB || ''}
+                  onChange={(e) => update({ maxFileKB: Math.max(0, parseInt(e.target.value) || 0) })}
+                  placeholder="不限"
+                  className="w-24 px-2 py-1 text-right text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none font-mono"
+                />
+                <span className="text-[10px] text-slate-400 w-6">KB</span>
+              </div>
+            </div>
+            <p className="text-[10px] text-slate-400">
+              {isLossy
+                ? '* 设置体积上限后，将从当前质量开始逐步降低，直到文件满足要求。'
+                : '* PNG 为无损格式，无法通过质量控制体积；如需限制体积请选择 JPEG 或 WebP。'}
+            </p>
+          </div>
+
+          {/* Mode */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">详情图导出方式</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => update({ mode: 'single' })}
+                className={`p-3 rounded-lg border text-left transition-colors ${!isSliced ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'}`}
+              >
+                <div className="text-sm font-medium flex items-center gap-1.5"><ImageIcon size={14} /> 整张长图</div>
+                <div className="text-[10px] text-slate-400 mt-1">导出为一张完整图片</div>
+              </button>
+              <button
+                onClick={() => update({ mode: 'sliced' })}
+                className={`p-3 rounded-lg border text-left transition-colors ${isSliced ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'}`}
+              >
+                <div className="text-sm font-medium flex items-center gap-1.5"><Scissors size={14} /> 切片打包</div>
+                <div className="text-[10px] text-slate-400 mt-1">按高度/体积切成多张，打包为 Zip</div>
+              </button>
+            </div>
+          </div>
+
+          {/* Slice Limits */}
+          {isSliced && (
+            <div className="space-y-3 p-3 bg-slate-50 rounded-lg border border-slate-100">
+              <div className="flex items-center justify-between gap-3">
+                <label className="text-xs text-slate-600">单张最大高度</label>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={MIN_SLICE_HEIGHT}
+                    step="100"
+                    value={draft.sliceMaxHeight || ''}
+                    onChange={(e) => update({ sliceMaxHeight: Math.max(0, parseInt(e.target.value) || 0) })}
+                    // Empty means no limit; anything else is raised to the minimum once the field is left
+                    onBlur={() => draft.sliceMaxHeight > 0 && update({ sliceMaxHeight: Math.max(MIN_SLICE_HEIGHT, draft.sliceMaxHeight) })}
+                    placeholder="不限"
+                    className="w-24 px-2 py-1 text-right text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none font-mono"
+                  />
+                  <span className="text-[10px] text-slate-400 w-6">px</span>
+                </div>
+              </div>
+              <p className="text-[10px] text-slate-400">
+                * 切口优先落在内容块之间的空隙，不会切断文字行或图片；单张超出体积上限时会自动切得更短，但不低于 {MIN_SLICE_HEIGHT}px。
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 flex gap-3 justify-end border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={draft.width < EXPORT_WIDTH_RANGE.min || (draft.sliceMaxHeight > 0 && draft.sliceMaxHeight < MIN_SLICE_HEIGHT)}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check size={16} />
+            保存设置（随工程保存）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsModal;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { Crop, Replace, ChevronLeft, ChevronRight, X, Plus, Loader2 } from 'lucide-react';
+import { GalleryData } from '../types';
+import {
+  GALLERY_COLUMNS,
+  GALLERY_ASPECT_RATIOS,
+  MAX_GALLERY_IMAGES,
+  updateGalleryImage,
+  removeGalleryImage,
+  moveGalleryImage
+} from '../services/galleryData';
+import { HistoryUpdateOptions } from '../hooks/useHistory';
+
+interface GalleryEditorProps {
+  gallery: GalleryData;
+  onChange: (gallery: GalleryData, options?: HistoryUpdateOptions) => void;
+  historyGroup: string; // Prefix for grouping slider drags and caption typing into single undo steps
+  onUpload: (files: File[]) => void; // Appends the files to the grid
+  onReplace: (imageId: string, file: File) => void;
+  onCrop: (imageId: string) => void;
+  isProcessing?: boolean;
+}
+
+// Sidebar settings for gallery blocks: grid options on top, then one tile per
+// image with crop / replace / reorder actions and a caption field. Selecting
+// several files at once fills the grid in selection order.
+const GalleryEditor: React.FC<GalleryEditorProps> = ({ gallery, onChange, historyGroup, onUpload, onReplace, onCrop, isProcessing = false }) => {
+  const isFull = gallery.images.length >= MAX_GALLERY_IMAGES;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (files.length > 0) onUpload(files);
+  };
+
+  const handleReplace = (imageId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onReplace(imageId, file);
+  };
+
+  const tileButtonClass = "p-1 rounded bg-black/50 text-white hover:bg-indigo-500 disabled:opacity-30 disabled:hover:bg-black/50 cursor-pointer";
+
+  return (
+    <div className="w-full border border-slate-200 rounded-lg bg-white overflow-hidden">
+      {/* Grid options */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 p-2 border-b border-slate-200 text-[10px] text-slate-500 select-none">
+        <div className="flex items-center gap-1">
+          <span>列数:</span>
+          {GALLERY_COLUMNS.map(columns => (
+            <button
+              key={columns}
+              type="button"
+              onClick={() => onChange({ ...gallery, columns })}
+              className={`w-5 h-5 rounded ${gallery.columns === columns ? 'bg-indigo-50 text-indigo-600 font-bold' : 'hover:bg-slate-100 text-slate-400'}`}
+            >
+              {columns}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1">
+          比例:
+          <select
+            value={gallery.aspectRatio}
+            onChange={(e) => onChange({ ...gallery, aspectRatio: Number(e.target.value) })}
+            className="bg-transparent border-none p-0 text-[10px] focus:ring-0 cursor-pointer text-slate-700 font-medium"
+          >
+            {GALLERY_ASPECT_RATIOS.map(([ratio, label]) => (
+              <option key={label} value={ratio}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          间距:
+          <input
+            type="range"
+            min="0"
+            max="32"
+            value={gallery.gap}
+            onChange={(e) => onChange({ ...gallery, gap: Number(e.target.value) }, { group: `${historyGroup}:gap` })}
+            className="w-12 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+          <span className="w-4 font-mono">{gallery.gap}</span>
+        </label>
+        <label className="flex items-center gap-1">
+          圆角:
+          <input
+            type="range"
+            min="0"
+            max="32"
+            value={gallery.radius}
+            onChange={(e) => onChange({ ...gallery, radius: Number(e.target.value) }, { group: `${historyGroup}:radius` })}
+            className="w-12 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+          <span className="w-4 font-mono">{gallery.radius}</span>
+        </label>
+      </div>
+
+      {/* Images */}
+      <div className="grid grid-cols-3 gap-2 p-2">
+        {gallery.images.map((image, index) => (
+          <div key={image.id} className="flex flex-col gap-1 min-w-0">
+            <div
+              className="relative w-full bg-slate-100 rounded overflow-hidden border border-slate-200 group/tile"
+              style={{ aspectRatio: gallery.aspectRatio }}
+            >
+              <img src={image.url} alt="" className="w-full h-full object-cover" />
+              <div className="absolute inset-0 bg-black/30 hidden group-hover/tile:flex flex-wrap items-center justify-center content-center gap-1 p-1">
+                <button type="button" onClick={() => onCrop(image.id)} className={tileButtonClass} title="裁剪">
+                  <Crop size={12} />
+                </button>
+                <label className={tileButtonClass} title="更换图片">
+                  <Replace size={12} />
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => handleReplace(image.id, e)} />
+                </label>
+                <button type="button" onClick={() => onChange(moveGalleryImage(gallery, index, index - 1))} disabled={index === 0} className={tileButtonClass} title="前移">
+                  <ChevronLeft size={12} />
+                </button>
+                <button type="button" onClick={() => onChange(moveGalleryImage(gallery, index, index + 1))} disabled={index === gallery.images.length - 1} className={tileButtonClass} title="后移">
+                  <ChevronRight size={12} />
+                </button>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(removeGalleryImage(gallery, image.id))}
+                className="absolute top-0.5 right-0.5 p-0.5 bg-black/50 text-white rounded-full opacity-0 group-hover/tile:opacity-100 transition-opacity hover:bg-red-500"
+                title="删除"
+              >
+                <X size={10} />
+              </button>
+            </div>
+            <input
+              type="text"
+              value={image.caption || ''}
+              onChange={(e) => onChange(updateGalleryImage(gallery, image.id, { caption: e.target.value }), { group: `${historyGroup}:caption:${image.id}` })}
+              placeholder="图片说明"
+              className="w-full px-1 py-0.5 text-[10px] bg-slate-50 border border-slate-200 rounded focus:border-indigo-500 focus:outline-none"
+            />
+          </div>
+        ))}
+
+        {!isFull && (
+          <label
+            className={`group flex flex-col items-center justify-center border-2 border-dashed border-slate-200 rounded cursor-pointer hover:border-indigo-400 hover:bg-indigo-50 transition-all bg-slate-50 ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
+            style={{ aspectRatio: gallery.aspectRatio }}
+          >
+            {isProcessing ? (
+              <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />
+            ) : (
+              <>
+                <Plus className="w-4 h-4 text-slate-400 group-hover:text-indigo-500" />
+                <span className="text-[10px] text-slate-400 group-hover:text-indigo-600">添加图片</span>
+              </>
+            )}
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+          </label>
+        )}
+      </div>
+
+      <div className="px-2 py-1.5 border-t border-slate-100 text-[10px] text-slate-400">
+        可一次选择多张图片，按选择顺序填入；最多 {MAX_GALLERY_IMAGES} 张
+      </div>
+    </div>
+  );
+};
+
+export default GalleryEditor;
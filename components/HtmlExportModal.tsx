@@ -0,0 +1,61 @@
+import React from 'react';
+import { X, Code2, FileCode, FolderArchive, Loader2 } from 'lucide-react';
+import { HtmlImageMode } from '../services/htmlExport';
+
+interface HtmlExportModalProps {
+  isExporting: boolean;
+  onExport: (mode: HtmlImageMode) => void;
+  onClose: () => void;
+}
+
+const HtmlExportModal: React.FC<HtmlExportModalProps> = ({ isExporting, onExport, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Code2 className="w-5 h-5 text-indigo-600"/> 导出 HTML 页面
+          </h3>
+          <button onClick={onClose} disabled={isExporting} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <p className="text-xs text-slate-500">
+            生成与预览一致的网页，文字可选中、缩放不失真，适用于小程序与自有商城。图片块的“图片说明”将作为 alt 文本。
+          </p>
+          <button
+            onClick={() => onExport('embedded')}
+            disabled={isExporting}
+            className="w-full p-4 rounded-lg border border-slate-200 hover:border-indigo-400 hover:bg-indigo-50 text-left transition-colors flex items-start gap-3 disabled:opacity-50 disabled:cursor-wait"
+          >
+            <FileCode className="w-5 h-5 text-indigo-600 shrink-0 mt-0.5" />
+            <div>
+              <div className="text-sm font-medium text-slate-800">单个 HTML 文件</div>
+              <div className="text-[10px] text-slate-400 mt-0.5">样式与图片全部内嵌，一个文件即可打开</div>
+            </div>
+          </button>
+          <button
+            onClick={() => onExport('sidecar')}
+            disabled={isExporting}
+            className="w-full p-4 rounded-lg border border-slate-200 hover:border-indigo-400 hover:bg-indigo-50 text-left transition-colors flex items-start gap-3 disabled:opacity-50 disabled:cursor-wait"
+          >
+            <FolderArchive className="w-5 h-5 text-indigo-600 shrink-0 mt-0.5" />
+            <div>
+              <div className="text-sm font-medium text-slate-800">HTML + 图片文件夹 (Zip)</div>
+              <div className="text-[10px] text-slate-400 mt-0.5">图片单独存放在 images/ 中，便于上传到 CDN</div>
+            </div>
+          </button>
+          {isExporting && (
+            <div className="flex items-center justify-center gap-2 text-xs text-indigo-600 pt-1">
+              <Loader2 size={14} className="animate-spin" /> 正在生成...
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HtmlExportModal;
@@ -0,0 +1,153 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { sanitizeRichText, sanitizePastedHtml, plainTextToHtml } from '../services/sanitizeHtml';
+import { ToggleFormat, formatSelection, insertHtmlAtSelection, toggleFormat } from '../services/richTextFormat';
+
+interface InlineEditableProps {
+  value: string;
+  onChange?: (value: string) => void; // Without it the text is static
+  rich?: boolean; // Value is sanitized rich text HTML instead of plain text
+  inline?: boolean; // Sits inside a heading instead of filling a block
+  placeholder?: string; // Shown while the value is empty and not being edited
+  className?: string;
+  style?: React.CSSProperties;
+  wrapperClassName?: string; // Layout classes for the outer element (flex-1, w-full...)
+}
+
+const SHORTCUT_FORMATS: Record<string, ToggleFormat> = { b: 'bold', i: 'italic', u: 'underline' };
+
+// Text on the poster that can be edited in place. The outline and hint around
+// it are no-export, so exports look the same whether or not a field is being
+// edited. The DOM content is managed by hand while editing, as in
+// RichTextEditor, so re-renders never move the caret.
+const InlineEditable: React.FC<InlineEditableProps> = ({
+  value,
+  onChange,
+  rich = false,
+  inline = false,
+  placeholder = '',
+  className = '',
+  style,
+  wrapperClassName = ''
+}) => {
+  const ref = useRef<HTMLElement | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const lastEmitted = useRef<string | null>(null);
+  const clickPoint = useRef<{ x: number; y: number } | null>(null);
+
+  // Sync content from props, except for the changes this field just emitted
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el || (isEditing && value === lastEmitted.current)) return;
+    const shown = isEditing ? value : value || placeholder;
+    if (rich) el.innerHTML = sanitizeRichText(shown);
+    else el.textContent = shown;
+  }, [value, isEditing, rich, placeholder]);
+
+  // Entering edit mode: focus and put the caret where the user clicked
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!isEditing || !el) return;
+    el.focus();
+    const point = clickPoint.current;
+    const range = point && document.caretRangeFromPoint ? document.caretRangeFromPoint(point.x, point.y) : null;
+    const selection = window.getSelection();
+    if (!selection) return;
+    if (range && el.contains(range.startContainer)) {
+      selection.removeAllRanges();
+      selection.addRange(range);
+    } else {
+      selection.selectAllChildren(el);
+      selection.collapseToEnd();
+    }
+  }, [isEditing]);
+
+  if (!onChange) {
+    const Static = inline ? 'span' : 'div';
+    const staticClassName = `${wrapperClassName} ${className}`;
+    return rich
+      ? <Static className={staticClassName} style={style} dangerouslySetInnerHTML={{ __html: sanitizeRichText(value || placeholder) }} />
+      : <Static className={staticClassName} style={style}>{value || placeholder}</Static>;
+  }
+
+  const emit = () => {
+    const el = ref.current;
+    if (!el) return;
+    const next = rich ? sanitizeRichText(el.innerHTML) : el.innerText.replace(/\n$/, '');
+    if (next !== value) {
+      lastEmitted.current = next;
+      onChange(next);
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (isEditing) return;
+    clickPoint.current = { x: e.clientX, y: e.clientY };
+    setIsEditing(true);
+  };
+
+  const handleBlur = () => {
+    setIsEditing(false);
+    lastEmitted.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    const el = ref.current;
+    if (!el) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      el.blur();
+      return;
+    }
+    if (!rich && e.key === 'Enter') {
+      e.preventDefault();
+      // Plain fields take a line break only with Shift; Enter finishes editing
+      if (e.shiftKey && insertHtmlAtSelection(el, '\n')) emit();
+      else if (!e.shiftKey) el.blur();
+      return;
+    }
+    const format = rich && (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey ? SHORTCUT_FORMATS[e.key.toLowerCase()] : undefined;
+    if (format) {
+      e.preventDefault();
+      if (formatSelection(el, (blocks, range) => toggleFormat(blocks, range, format))) emit();
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLElement>) => {
+    e.preventDefault();
+    const el = ref.current;
+    const html = rich ? e.clipboardData.getData('text/html') : '';
+    const clean = html ? sanitizePastedHtml(html) : plainTextToHtml(e.clipboardData.getData('text/plain'));
+    if (el && clean && insertHtmlAtSelection(el, clean)) emit();
+  };
+
+  const Wrapper = inline ? 'span' : 'div';
+  const Editable = inline ? 'span' : 'div';
+  return (
+    <Wrapper className={`relative group/inline-edit ${inline ? 'inline-block max-w-full' : ''} ${wrapperClassName}`}>
+      <Editable
+        ref={(node: HTMLElement | null) => { ref.current = node; }}
+        contentEditable={isEditing}
+        suppressContentEditableWarning
+        onClick={handleClick}
+        onInput={emit}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        className={`${className} outline-none ${isEditing ? 'cursor-text !select-text' : 'cursor-pointer'}`}
+        style={style}
+      />
+      <span
+        className={`absolute -inset-1.5 rounded pointer-events-none no-export transition-opacity ${
+          isEditing ? 'border-2 border-indigo-500 opacity-100' : 'border border-dashed border-indigo-400 opacity-0 group-hover/inline-edit:opacity-100'
+        }`}
+      />
+      {isEditing && (
+        <span className="absolute -top-6 right-0 px-1.5 py-0.5 rounded bg-indigo-500 text-white text-[10px] font-normal leading-none whitespace-nowrap pointer-events-none no-export">
+          {rich ? '编辑中 · Ctrl+B/I/U 设置格式 · Esc 完成' : '编辑中 · Enter 完成'}
+        </span>
+      )}
+    </Wrapper>
+  );
+};
+
+export default InlineEditable;
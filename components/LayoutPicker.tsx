@@ -0,0 +1,33 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { POSTER_LAYOUTS } from './posterLayouts';
+
+interface LayoutPickerProps {
+  layoutId: string;
+  onChange: (layoutId: string) => void;
+}
+
+const LayoutPicker: React.FC<LayoutPickerProps> = ({ layoutId, onChange }) => {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {POSTER_LAYOUTS.map(layout => {
+        const isActive = layout.id === layoutId;
+        return (
+          <button
+            key={layout.id}
+            onClick={() => onChange(layout.id)}
+            className={`relative text-left p-3 rounded-lg border transition-colors ${
+              isActive ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300 hover:bg-slate-50'
+            }`}
+          >
+            <div className={`text-xs font-medium ${isActive ? 'text-indigo-700' : 'text-slate-700'}`}>{layout.name}</div>
+            <div className="text-[10px] text-slate-400 mt-0.5">{layout.description}</div>
+            {isActive && <Check size={12} className="absolute top-2 right-2 text-indigo-600" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayoutPicker;
@@ -1,20 +1,41 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Move } from 'lucide-react';
-import { PosterData, ImageConfig, HeaderImage } from '../types';
+import { PosterData, ImageConfig, PosterTheme, TableData, GalleryData, HeaderImage } from '../types';
+import { DEFAULT_THEME } from '../themes';
+import { getPosterLayout } from './posterLayouts';
+import { RICH_TEXT_LIST_CLASSES } from '../services/richTextFormat';
+import InlineEditable from './InlineEditable';
+import { coveredCells } from '../services/tableData';
+import { PREVIEW_SIZE } from './CropModal';
+import { POSTER_WIDTH } from '../services/exportService';
 
 interface PosterPreviewProps {
   id: string;
   data: PosterData;
   imageConfig: ImageConfig;
   onImageConfigChange: (config: ImageConfig) => void;
+  theme?: PosterTheme;
+  layoutId?: string;
   scale?: number;
+  // Enables editing text in place; static previews (batch, compare) leave it out
+  onTextEdit?: (target: PreviewTextTarget, value: string) => void;
+  // Content block linked to the sidebar; its outline is no-export
+  activeBlockId?: string | null;
+  onBlockActivate?: (id: string, via: 'hover' | 'click') => void;
 }
 
+// Which field an in-place edit belongs to
+export type PreviewTextTarget =
+  | { kind: 'title' }
+  | { kind: 'marketingCopy' }
+  | { kind: 'detail'; id: string }
+  | { kind: 'block'; id: string };
+
 // Helper component for the "Pill" labels seen in reference image
 // Updated to use the custom SVG shape as background
 // Fixed: Switched to explicit pixel font sizes (text-[12px]) to prevent browser scaling issues
 // Adjusted gap to gap-4 for better compactness with smaller text
-const DetailRow: React.FC<{ label: string, value: string, textAlign?: 'left' | 'center' | 'right' | 'justify' }> = ({ label, value, textAlign = 'left' }) => {
+const DetailRow: React.FC<{ label: string, value: string, theme: PosterTheme, textAlign?: 'left' | 'center' | 'right' | 'justify', onChange?: (value: string) => void }> = ({ label, value, theme, textAlign = 'left', onChange }) => {
   // Heuristic: If text contains line breaks or is long (>24 chars), treat as long content
   // This triggers a vertical layout where the value sits below the label
   const isLong = value.length > 24 || value.includes('<br');
@@ -29,28 +50,131 @@ const DetailRow: React.FC<{ label: string, value: string, textAlign?: 'left' | '
   return (
     <div className={`w-full flex ${isLong ? 'flex-col items-start gap-2' : 'items-start gap-4'}`}>
       <div className="shrink-0 relative flex items-center justify-center w-[6.8rem] select-none">
-        <svg viewBox="0 0 200 65" className="w-full h-auto text-[#cca379] fill-current drop-shadow-sm">
+        <svg viewBox="0 0 200 65" className="w-full h-auto fill-current drop-shadow-sm" style={{ color: theme.accentColor }}>
             <path d="m171.24,64.05H27.7c-7.32,0-13.73-4.41-15.81-10.79-7.03-1.87-11.89-7.76-11.89-14.51v-13.45c0-6.75,4.86-12.64,11.89-14.51C13.97,4.41,20.38,0,27.7,0h143.53c7.32,0,13.73,4.41,15.81,10.79,7.03,1.87,11.89,7.76,11.89,14.51v13.45c0,6.75-4.86,12.64-11.89,14.51-2.08,6.38-8.49,10.79-15.81,10.79ZM27.7,2c-6.64,0-12.42,4.07-14.06,9.9l-.16.57-.58.13c-6.42,1.49-10.91,6.71-10.91,12.7v13.45c0,5.99,4.49,11.22,10.91,12.7l.58.13.16.57c1.63,5.83,7.42,9.89,14.06,9.89h143.53c6.64,0,12.42-4.07,14.06-9.9l.16-.57.58-.13c6.42-1.49,10.91-6.71,10.91-12.7v-13.45c0-5.99-4.48-11.21-10.91-12.7l-.58-.13-.16-.57c-1.64-5.83-7.42-9.9-14.06-9.9H27.7Z" />
             <path d="m27.7,57.99c-4.83,0-9-2.85-10.14-6.93l-.81-2.89-2.92-.68c-4.57-1.06-7.76-4.65-7.76-8.74v-13.45c0-4.09,3.19-7.68,7.76-8.74l2.92-.68.81-2.89c1.14-4.08,5.31-6.93,10.14-6.93h143.53c4.83,0,9,2.85,10.14,6.93l.81,2.89,2.92.68c4.57,1.06,7.76,4.65,7.76,8.74v13.45c0,4.09-3.19,7.68-7.76,8.74l-2.92.68-.81,2.89c-1.15,4.08-5.32,6.93-10.14,6.93H27.7Z" />
         </svg>
-        <span className="absolute inset-0 flex items-center justify-center text-white text-[1rem] font-normal tracking-wider">
+        <span className="absolute inset-0 flex items-center justify-center text-[1rem] font-normal tracking-wider" style={{ color: theme.labelTextColor }}>
           {label}
         </span>
       </div>
-      <div 
-        className={`flex-1 min-w-0 text-[rgb(29,29,31)] text-[1rem] leading-relaxed font-medium break-all whitespace-pre-wrap [&_*]:break-all ${isLong ? 'pt-0 pl-1 w-full' : 'pt-[3.5px]'} ${alignmentClass}`}
-        dangerouslySetInnerHTML={{ __html: value }}
+      <InlineEditable
+        rich
+        value={value}
+        onChange={onChange}
+        wrapperClassName={`flex-1 min-w-0 ${isLong ? 'pt-0 pl-1 w-full' : 'pt-[3.5px]'}`}
+        className={`text-[1rem] leading-relaxed font-medium break-all whitespace-pre-wrap [&_*]:break-all ${RICH_TEXT_LIST_CLASSES} ${alignmentClass}`}
+        style={{ color: theme.textColor }}
       />
     </div>
   );
 };
 
+// Table block: header row in the label pill colors, zebra stripes tinted
+// with the accent color. Rows (and merged cells) are never cut when slicing.
+const TableView: React.FC<{ table: TableData, theme: PosterTheme }> = ({ table, theme }) => {
+  const covered = coveredCells(table);
+  const line = `1px solid color-mix(in srgb, ${theme.textColor} 15%, transparent)`;
+  const stripe = `color-mix(in srgb, ${theme.accentColor} 12%, transparent)`;
+
+  return (
+    <div
+      className="overflow-hidden shadow-sm"
+      style={{ backgroundColor: theme.cardBackground, borderRadius: `${Math.min(theme.cardRadius, 12)}px`, border: line }}
+    >
+      <table className="w-full table-fixed text-[0.875rem] leading-snug">
+        <tbody>
+          {table.rows.map((row, r) => {
+            const isHeader = table.headerRow && r === 0;
+            const bodyIndex = table.headerRow ? r - 1 : r;
+            return (
+              <tr
+                key={r}
+                data-slice-atomic
+                style={{ backgroundColor: isHeader ? theme.accentColor : table.striped && bodyIndex % 2 === 1 ? stripe : undefined }}
+              >
+                {row.map((cell, c) => {
+                  if (covered.has(`${r}:${c}`)) return null;
+                  const Cell = isHeader ? 'th' : 'td';
+                  return (
+                    <Cell
+                      key={c}
+                      rowSpan={cell.rowSpan}
+                      colSpan={cell.colSpan}
+                      data-slice-atomic={cell.rowSpan ? true : undefined}
+                      className={`px-2.5 py-2 break-all ${isHeader ? 'font-bold' : 'font-normal'}`}
+                      style={{
+                        textAlign: table.columnAligns[c],
+                        color: isHeader ? theme.labelTextColor : theme.textColor,
+                        borderTop: r > 0 ? line : undefined,
+                        borderLeft: c > 0 ? line : undefined
+                      }}
+                    >
+                      {cell.text}
+                    </Cell>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// Places an image in its cell the way CropModal showed it. The crop offset was
+// recorded on a PREVIEW_SIZE wide viewport; percentage margins of an absolute
+// element resolve against the cell width (for top as well), so they scale with
+// the cell, and scaling around the moved center matches translate-then-scale.
+const cropStyleOf = (crop: HeaderImage['crop']): React.CSSProperties => ({
+  marginLeft: `${((crop?.x || 0) / PREVIEW_SIZE) * 100}%`,
+  marginTop: `${((crop?.y || 0) / PREVIEW_SIZE) * 100}%`,
+  transform: `scale(${crop?.scale || 1})`
+});
+
+// Gallery block: a grid of equally shaped cells. Each image and its caption
+// stay together when slicing.
+const GalleryView: React.FC<{ gallery: GalleryData, theme: PosterTheme }> = ({ gallery, theme }) => (
+  <div
+    className="grid"
+    style={{ gridTemplateColumns: `repeat(${gallery.columns}, minmax(0, 1fr))`, gap: `${gallery.gap}px` }}
+  >
+    {gallery.images.map(image => (
+      <figure key={image.id} className="min-w-0" data-slice-atomic>
+        <div
+          className="relative w-full overflow-hidden shadow-sm"
+          style={{ aspectRatio: gallery.aspectRatio, borderRadius: `${gallery.radius}px`, backgroundColor: theme.cardBackground }}
+        >
+          <img
+            src={image.url}
+            alt={image.caption || ''}
+            className="absolute top-0 left-0 w-full h-auto max-w-none origin-center"
+            style={cropStyleOf(image.crop)}
+            crossOrigin={image.url.startsWith('http') ? "anonymous" : undefined}
+          />
+        </div>
+        {image.caption && (
+          <figcaption className="mt-1.5 text-[0.8125rem] leading-snug text-center break-all" style={{ color: theme.textColor }}>
+            {image.caption}
+          </figcaption>
+        )}
+      </figure>
+    ))}
+  </div>
+);
+
 const PosterPreview: React.FC<PosterPreviewProps> = ({ 
   id, 
   data, 
   imageConfig, 
   onImageConfigChange,
-  scale = 1
+  theme = DEFAULT_THEME,
+  layoutId,
+  scale = 1,
+  onTextEdit,
+  activeBlockId,
+  onBlockActivate
 }) => {
   // Global Drag State
   const [dragState, setDragState] = useState<{
@@ -119,7 +243,8 @@ const PosterPreview: React.FC<PosterPreviewProps> = ({
     return () => {
       element.removeEventListener('wheel', handleWheel);
     };
-  }, [imageConfig, onImageConfigChange]);
+    // layoutId: switching layouts remounts the header element
+  }, [imageConfig, onImageConfigChange, layoutId]);
 
 
   // Handler Factories
@@ -135,125 +260,204 @@ const PosterPreview: React.FC<PosterPreviewProps> = ({
     });
   };
 
-  const posterWidth = 375; 
-  
-  return (
+  const posterWidth = POSTER_WIDTH;
+  const layout = getPosterLayout(layoutId);
+
+  const cardStyle: React.CSSProperties = {
+    backgroundColor: theme.cardBackground,
+    borderRadius: `${theme.cardRadius}px`
+  };
+
+  // 1. Header Image Area (Interactive)
+  const header = (
     <div 
-      id={id}
-      className="bg-[#efe8e0] shadow-2xl overflow-hidden relative flex flex-col text-[rgb(29,29,31)]"
-      style={{
-        width: `${posterWidth}px`,
-        minHeight: `${posterWidth * 1.77}px`, 
-        transform: `scale(${scale})`,
-        transformOrigin: 'top left',
-      }}
+      ref={headerRef}
+      data-slice-atomic
+      className={`relative w-full bg-slate-300 overflow-hidden shrink-0 ${imageConfig.url ? 'cursor-move group' : ''}`}
+      style={{ height: `${layout.headerHeight}px` }}
+      onMouseDown={startHeaderDrag}
     >
-      {/* 1. Existing Header Image Area (Interactive) */}
-      <div 
-        ref={headerRef}
-        className={`relative w-full h-[320px] bg-slate-300 overflow-hidden shrink-0 ${imageConfig.url ? 'cursor-move group' : ''}`}
-        onMouseDown={startHeaderDrag}
-      >
-        {imageConfig.url ? (
-          <>
-            <img 
-              src={imageConfig.url} 
-              alt="Header" 
-              crossOrigin={imageConfig.url.startsWith('http') ? "anonymous" : undefined}
-              className="absolute max-w-none origin-center pointer-events-none select-none"
-              style={{
-                transform: `translate(${imageConfig.x}px, ${imageConfig.y}px) scale(${imageConfig.scale})`,
-                width: '100%',
-                height: 'auto', // Changed from 100% to auto to preserve aspect ratio
-                // objectFit: 'cover' removed to prevent pre-cropping
-              }}
-            />
-            
-            {/* Helper Overlay - Hidden during export via 'no-export' class */}
-            <div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center pointer-events-none no-export">
-              <div className="bg-white/90 px-3 py-1 rounded-full text-xs font-medium flex items-center gap-1 shadow-sm">
-                <Move size={12} /> 拖拽调整 / 滚轮缩放
-              </div>
+      {imageConfig.url ? (
+        <>
+          <img 
+            src={imageConfig.url} 
+            alt={data.subTitle || '头图'} 
+            crossOrigin={imageConfig.url.startsWith('http') ? "anonymous" : undefined}
+            className="absolute max-w-none origin-center pointer-events-none select-none"
+            style={{
+              transform: `translate(${imageConfig.x}px, ${imageConfig.y}px) scale(${imageConfig.scale})`,
+              width: '100%',
+              height: 'auto', // Changed from 100% to auto to preserve aspect ratio
+              // objectFit: 'cover' removed to prevent pre-cropping
+            }}
+          />
+      
+          {/* Helper Overlay - Hidden during export via 'no-export' class */}
+          <div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center pointer-events-none no-export">
+            <div className="bg-white/90 px-3 py-1 rounded-full text-xs font-medium flex items-center gap-1 shadow-sm">
+              <Move size={12} /> 拖拽调整 / 滚轮缩放
             </div>
-          </>
-        ) : (
-          <div className="w-full h-full bg-slate-200"></div>
-        )}
+          </div>
+        </>
+      ) : (
+        <div className="w-full h-full bg-slate-200"></div>
+      )}
+    </div>
+  );
+
+  // Bound per field when the preview is editable, undefined otherwise
+  const editHandler = (target: PreviewTextTarget) =>
+    onTextEdit ? (value: string) => onTextEdit(target, value) : undefined;
+
+  // 2. Title Card
+  const title = (
+    <InlineEditable inline value={data.subTitle} placeholder="主题 Slogan" onChange={editHandler({ kind: 'title' })} />
+  );
+  const titleCard = (
+    <div className="p-[1.8rem] shadow-sm text-left" style={cardStyle} data-slice-boundary>
+      <h2 className="text-[1.1rem] font-bold leading-tight whitespace-pre-wrap" style={{ color: theme.headingColor }}>
+        {title}
+      </h2>
+    </div>
+  );
+
+  // 3. Details Card
+  const detailsCard = (
+    <div className="p-[1.8rem] shadow-sm" style={cardStyle} data-slice-boundary>
+      <h3 className="text-[1.1rem] font-bold mb-5" style={{ color: theme.headingColor }}>活动详情</h3>
+  
+      <div className="space-y-4">
+        {data.details?.map((item) => (
+          <DetailRow 
+            key={item.id} 
+            label={item.label} 
+            value={item.value}
+            theme={theme}
+            textAlign={item.style?.textAlign}
+            onChange={editHandler({ kind: 'detail', id: item.id })}
+          />
+        )) || <div className="text-[12px] text-slate-400">暂无信息</div>}
       </div>
+    </div>
+  );
 
-      {/* 2. Main Content Container (Overlapping) */}
-      <div className="flex-1 flex flex-col px-4 -mt-10 relative z-10 pb-8 space-y-4">
-        
-        {/* Title Card */}
-        <div className="bg-[rgb(255,244,239)] rounded-[0.55rem] p-[1.8rem] shadow-sm text-left">
-          <h2 className="text-[1.1rem] font-bold text-[rgb(29,29,31)] leading-tight whitespace-pre-wrap">
-            {data.subTitle || "主题 Slogan"}
-          </h2>
-        </div>
+  // 4. Marketing Copy Card (optional, positioned by marketingCopyStyle)
+  const marketingStyle = data.marketingCopyStyle;
+  const showMarketing = marketingStyle?.visible !== false && !!data.marketingCopy;
+  const marketingPosition = marketingStyle?.position || 'afterTitle';
+  const marketingAlignmentClass = {
+    left: 'text-left',
+    center: 'text-center',
+    right: 'text-right',
+    justify: 'text-justify'
+  }[marketingStyle?.textAlign || 'justify'];
 
-        {/* Details Card */}
-        <div className="bg-[rgb(255,244,239)] rounded-[0.55rem] p-[1.8rem] shadow-sm">
-          <h3 className="text-[1.1rem] font-bold text-[rgb(29,29,31)] mb-5">活动详情</h3>
-          
-          <div className="space-y-4">
-            {data.details?.map((item) => (
-              <DetailRow 
-                key={item.id} 
-                label={item.label} 
-                value={item.value}
-                textAlign={item.style?.textAlign}
-              />
-            )) || <div className="text-[12px] text-slate-400">暂无信息</div>}
-          </div>
-        </div>
+  const marketingCard = showMarketing ? (
+    <div className="p-[1.8rem] shadow-sm" style={cardStyle} data-slice-boundary>
+      <InlineEditable
+        rich
+        value={data.marketingCopy}
+        onChange={editHandler({ kind: 'marketingCopy' })}
+        className={`text-[1rem] leading-relaxed break-all whitespace-pre-wrap [&_*]:break-all ${RICH_TEXT_LIST_CLASSES} ${marketingAlignmentClass}`}
+        style={{ color: theme.textColor }}
+      />
+    </div>
+  ) : null;
 
-        {/* Marketing Narrative & Mixed Content - Standard Flow */}
-        <div className="px-1 pt-2 space-y-4 relative">
-          {data.content.map((block) => {
-            // Determine text alignment class
-            const alignmentClass = {
-              left: 'text-left',
-              center: 'text-center',
-              right: 'text-right',
-              justify: 'text-justify'
-            }[block.style?.textAlign || 'justify'];
-            
-            return (
+  // 5. Marketing Narrative & Mixed Content - Standard Flow
+  const blocks = (
+    <div className="px-1 pt-2 space-y-4 relative">
+      {data.content.map((block) => {
+        // Determine text alignment class
+        const alignmentClass = {
+          left: 'text-left',
+          center: 'text-center',
+          right: 'text-right',
+          justify: 'text-justify'
+        }[block.style?.textAlign || 'justify'];
+    
+        return (
+          <div 
+            key={block.id}
+            className="relative transition-all"
+            data-slice-boundary
+            data-block-id={block.id}
+            onMouseEnter={onBlockActivate && (() => onBlockActivate(block.id, 'hover'))}
+            onClick={onBlockActivate && (() => onBlockActivate(block.id, 'click'))}
+          >
+            {activeBlockId === block.id && (
+              <div className="absolute -inset-2 rounded-lg ring-2 ring-indigo-400/70 bg-indigo-400/5 pointer-events-none no-export" />
+            )}
+            {block.type === 'text' && block.value && (
+              <InlineEditable
+                rich
+                value={block.value}
+                onChange={editHandler({ kind: 'block', id: block.id })}
+                className={`text-[1rem] leading-relaxed select-none break-all whitespace-pre-wrap [&_*]:break-all ${RICH_TEXT_LIST_CLASSES} ${alignmentClass}`}
+              />
+            )}
+            {block.type === 'table' && block.table && (
+              <TableView table={block.table} theme={theme} />
+            )}
+            {block.type === 'gallery' && block.gallery && block.gallery.images.length > 0 && (
+              <GalleryView gallery={block.gallery} theme={theme} />
+            )}
+            {block.type === 'image' && block.value && (
               <div 
-                key={block.id}
-                className="relative transition-all"
+                className="w-full overflow-hidden shadow-sm pointer-events-none"
+                data-slice-atomic
+                style={{ 
+                  height: block.style?.height ? `${block.style.height}px` : 'auto',
+                  borderRadius: `${theme.imageRadius}px`
+                }}
               >
-                {block.type === 'text' && block.value && (
-                  <div 
-                    className={`text-[1rem] leading-relaxed select-none break-all whitespace-pre-wrap [&_*]:break-all ${alignmentClass}`}
-                    dangerouslySetInnerHTML={{ __html: block.value }}
-                  />
-                )}
-                {block.type === 'image' && block.value && (
-                  <div 
-                    className="w-full rounded-lg overflow-hidden shadow-sm pointer-events-none"
-                    style={{ 
-                      height: block.style?.height ? `${block.style.height}px` : 'auto' 
-                    }}
-                  >
-                    <img 
-                      src={block.value} 
-                      alt="Detail" 
-                      className="w-full h-full object-cover block"
-                      style={{
-                        height: block.style?.height ? '100%' : 'auto',
-                        objectPosition: block.style?.objectPosition || 'center'
-                      }}
-                      crossOrigin={block.value.startsWith('http') ? "anonymous" : undefined}
-                    />
-                  </div>
-                )}
+                <img 
+                  src={block.value} 
+                  alt={block.alt || ''} 
+                  className="w-full h-full object-cover block"
+                  style={{
+                    height: block.style?.height ? '100%' : 'auto',
+                    objectPosition: block.style?.objectPosition || 'center'
+                  }}
+                  crossOrigin={block.value.startsWith('http') ? "anonymous" : undefined}
+                />
               </div>
-            );
-          })}
-        </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
 
-      </div>
+  const content = marketingPosition === 'beforeContent' && marketingCard ? (
+    <>
+      {marketingCard}
+      {blocks}
+    </>
+  ) : blocks;
+  
+  return (
+    <div 
+      id={id}
+      className="shadow-2xl overflow-hidden relative flex flex-col"
+      style={{
+        backgroundColor: theme.pageBackground,
+        color: theme.textColor,
+        width: `${posterWidth}px`,
+        minHeight: `${posterWidth * 1.77}px`, 
+        transform: `scale(${scale})`,
+        transformOrigin: 'top left',
+      }}
+    >
+      {layout.render({
+        theme,
+        title,
+        header,
+        titleCard,
+        afterTitle: marketingPosition === 'afterTitle' ? marketingCard : null,
+        detailsCard,
+        content
+      })}
     </div>
   );
 };
@@ -1,5 +1,29 @@
-import React, { useLayoutEffect, useRef } from 'react';
-import { Bold, Palette } from 'lucide-react';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Bold, Italic, Underline, Strikethrough, Palette, Highlighter, Eraser, List, ListOrdered } from 'lucide-react';
+import { sanitizeRichText, sanitizePastedHtml, plainTextToHtml } from '../services/sanitizeHtml';
+import {
+  TextBlock,
+  TextRange,
+  ToggleFormat,
+  FormatOperation,
+  BlockType,
+  FONT_SIZES,
+  LINE_HEIGHTS,
+  HIGHLIGHT_COLORS,
+  RICH_TEXT_LIST_CLASSES,
+  parseRichText,
+  readSelection,
+  formatSelection,
+  insertHtmlAtSelection,
+  isFormatActive,
+  getFormatValue,
+  getBlockType,
+  getLineHeight,
+  toggleFormat,
+  setFormatValue,
+  toggleList,
+  setLineHeight
+} from '../services/richTextFormat';
 
 interface RichTextEditorProps {
   value: string;
@@ -9,6 +33,27 @@ interface RichTextEditorProps {
   minHeight?: string;
 }
 
+// 工具栏按钮的激活状态，随选区变化
+interface ToolbarState extends Record<ToggleFormat, boolean> {
+  fontSize?: string;
+  highlight?: string;
+  blockType: BlockType | null;
+  lineHeight?: string;
+}
+
+const EMPTY_TOOLBAR: ToolbarState = { bold: false, italic: false, underline: false, strikethrough: false, blockType: null };
+
+const toolbarStateOf = (blocks: TextBlock[], range: TextRange): ToolbarState => ({
+  bold: isFormatActive(blocks, range, 'bold'),
+  italic: isFormatActive(blocks, range, 'italic'),
+  underline: isFormatActive(blocks, range, 'underline'),
+  strikethrough: isFormatActive(blocks, range, 'strikethrough'),
+  fontSize: getFormatValue(blocks, range, 'fontSize'),
+  highlight: getFormatValue(blocks, range, 'highlight'),
+  blockType: getBlockType(blocks, range),
+  lineHeight: getLineHeight(blocks, range)
+});
+
 export const RichTextEditor: React.FC<RichTextEditorProps> = ({ 
   value, 
   onChange, 
@@ -18,6 +63,12 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const isFocused = useRef(false);
+  // 最近一次由本编辑器发出的内容，用于区分"用户输入"与"外部修改"（如撤销/重做）
+  const lastEmitted = useRef<string | null>(null);
+  // 最近一次位于编辑区内的选区（以字符偏移表示，重新渲染后依然有效）
+  const lastRange = useRef<TextRange | null>(null);
+  const [toolbar, setToolbar] = useState<ToolbarState>(EMPTY_TOOLBAR);
+  const [isHighlightOpen, setIsHighlightOpen] = useState(false);
 
   // 使用 useLayoutEffect 确保在 DOM 绘制前同步内容，避免闪烁
   useLayoutEffect(() => {
@@ -29,9 +80,20 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       // 这样可以彻底解决光标跳动和无法连续删除的问题
       if (value !== currentHTML) {
         if (!isFocused.current) {
-          editorRef.current.innerHTML = value;
+          editorRef.current.innerHTML = sanitizeRichText(value);
+        } else if (value !== lastEmitted.current) {
+          // Focus 状态下的外部修改（撤销/重做）：同步内容并把光标放到末尾
+          editorRef.current.innerHTML = sanitizeRichText(value);
+          const selection = window.getSelection();
+          if (selection) {
+            const range = document.createRange();
+            range.selectNodeContents(editorRef.current);
+            range.collapse(false);
+            selection.removeAllRanges();
+            selection.addRange(range);
+          }
         }
-        // 如果是 Focus 状态，说明差异来自用户的输入过程，
+        // 其余情况说明差异来自用户的输入过程，
         // 此时不要触碰 innerHTML，否则会导致光标重置
       }
     }
@@ -39,46 +101,185 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
   const handleInput = () => {
     if (editorRef.current) {
-      const html = editorRef.current.innerHTML;
+      // 拖放等途径进入的标记同样按白名单清理后再保存
+      const html = sanitizeRichText(editorRef.current.innerHTML);
       // 只有内容确实变化时才通知父组件，避免不必要的循环
       if (html !== value) {
+        lastEmitted.current = html;
         onChange(html);
       }
     }
   };
 
-  const execCmd = (cmd: string, arg?: string) => {
-    document.execCommand('styleWithCSS', false, 'true');
-    document.execCommand(cmd, false, arg);
-    handleInput(); // 命令执行后立即触发更新
-    editorRef.current?.focus();
+  // 粘贴：只保留支持的格式（Word / 网页带来的字体、背景色等一律去掉），并自行插入到光标处
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const html = e.clipboardData.getData('text/html');
+    const clean = html
+      ? sanitizePastedHtml(html)
+      : plainTextToHtml(e.clipboardData.getData('text/plain'));
+    if (!clean) return;
+    if (!editorRef.current || !insertHtmlAtSelection(editorRef.current, clean)) return;
+    handleInput();
+  };
+
+  // 工具栏操作：解析当前内容 -> 在结构化模型上修改 -> 重新渲染并恢复选区
+  const applyFormat = (operation: FormatOperation) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    // 点击下拉框或取色器时焦点会离开编辑区，此时使用最近一次记录的选区
+    const result = formatSelection(editor, operation, lastRange.current);
+    if (!result) return;
+    lastRange.current = result.range;
+    handleInput();
+    setToolbar(toolbarStateOf(result.blocks, result.range));
+  };
+
+  // 选区变化时记录位置并刷新工具栏的激活状态
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const anchor = window.getSelection()?.anchorNode;
+      if (!editor || !anchor || !editor.contains(anchor)) return;
+      const { blocks, leaves } = parseRichText(editor);
+      const range = readSelection(editor, leaves);
+      if (!range) return;
+      lastRange.current = range;
+      setToolbar(toolbarStateOf(blocks, range));
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+    const format = ({ b: 'bold', i: 'italic', u: 'underline' } as Record<string, ToggleFormat>)[e.key.toLowerCase()];
+    if (!format) return;
+    // 接管浏览器自带的快捷键：不让浏览器自行插入 <b>/<i>/<u>，统一由格式层生成标记
+    e.preventDefault();
+    applyFormat((blocks, range) => toggleFormat(blocks, range, format));
   };
 
+  // 按钮在 mousedown 时阻止默认行为，避免编辑区失去选区
+  const keepSelection = (e: React.MouseEvent) => e.preventDefault();
+
+  const buttonClass = (active: boolean) =>
+    `p-1.5 rounded transition-colors ${active ? 'bg-indigo-50 text-indigo-600' : 'text-slate-600 hover:bg-slate-100 hover:text-indigo-600'}`;
+  const selectClass = "h-7 px-1 text-xs text-slate-600 bg-white border border-slate-200 rounded hover:border-indigo-300 focus:outline-none cursor-pointer";
+  const divider = <div className="h-4 w-px bg-slate-200 mx-0.5"></div>;
+
+  const toggleButtons: [ToggleFormat, React.ElementType, string][] = [
+    ['bold', Bold, '加粗 (Ctrl+B)'],
+    ['italic', Italic, '斜体 (Ctrl+I)'],
+    ['underline', Underline, '下划线 (Ctrl+U)'],
+    ['strikethrough', Strikethrough, '删除线']
+  ];
+
   return (
     <div className={`border border-slate-200 rounded-lg overflow-hidden bg-slate-50 focus-within:ring-1 focus-within:ring-indigo-500 focus-within:border-indigo-500 transition-all flex flex-col ${className}`}>
       {/* 工具栏 */}
-      <div className="flex items-center gap-1 p-1.5 border-b border-slate-200 bg-white select-none">
-         <button 
-           onClick={(e) => { e.preventDefault(); execCmd('bold'); }} 
-           className="p-1.5 rounded hover:bg-slate-100 text-slate-600 hover:text-indigo-600 transition-colors"
-           title="加粗 (选中文字)"
-           type="button"
+      <div className="flex flex-wrap items-center gap-0.5 p-1.5 border-b border-slate-200 bg-white select-none">
+         {toggleButtons.map(([format, Icon, title]) => (
+           <button
+             key={format}
+             onMouseDown={keepSelection}
+             onClick={() => applyFormat((blocks, range) => toggleFormat(blocks, range, format))}
+             className={buttonClass(toolbar[format])}
+             title={title}
+             type="button"
+           >
+             <Icon className="w-4 h-4" />
+           </button>
+         ))}
+
+         {divider}
+
+         <select
+           value={toolbar.fontSize || ''}
+           onChange={(e) => applyFormat((blocks, range) => setFormatValue(blocks, range, 'fontSize', e.target.value || undefined))}
+           className={selectClass}
+           title="字号 (选中文字)"
          >
-           <Bold className="w-4 h-4" />
-         </button>
-         
-         <div className="h-4 w-px bg-slate-200 mx-1"></div>
+           {FONT_SIZES.map(size => <option key={size.label} value={size.value || ''}>{size.label}</option>)}
+         </select>
 
          <div className="relative group p-1.5 rounded hover:bg-slate-100 cursor-pointer">
             <Palette className="w-4 h-4 text-slate-600 group-hover:text-indigo-600" />
             <input 
               type="color" 
               className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
-              onChange={(e) => execCmd('foreColor', e.target.value)}
+              onChange={(e) => applyFormat((blocks, range) => setFormatValue(blocks, range, 'color', e.target.value))}
               title="文字颜色 (选中文字)"
             />
          </div>
-         <span className="text-[10px] text-slate-400 ml-2">选中文字以应用样式</span>
+
+         <div className="relative" onMouseLeave={() => setIsHighlightOpen(false)}>
+           <button
+             onMouseDown={keepSelection}
+             onClick={() => setIsHighlightOpen(open => !open)}
+             className={buttonClass(!!toolbar.highlight)}
+             title="高亮 (选中文字)"
+             type="button"
+           >
+             <Highlighter className="w-4 h-4" />
+           </button>
+           {isHighlightOpen && (
+             <div className="absolute left-0 top-full pt-1 z-20">
+              <div className="p-1.5 bg-white border border-slate-200 rounded-lg shadow-lg flex items-center gap-1">
+               {HIGHLIGHT_COLORS.map(color => (
+                 <button
+                   key={color}
+                   onMouseDown={keepSelection}
+                   onClick={() => { applyFormat((blocks, range) => setFormatValue(blocks, range, 'highlight', color)); setIsHighlightOpen(false); }}
+                   className="w-5 h-5 rounded border border-slate-200 hover:border-indigo-400"
+                   style={{ backgroundColor: color }}
+                   title={color}
+                   type="button"
+                 />
+               ))}
+               <button
+                 onMouseDown={keepSelection}
+                 onClick={() => { applyFormat((blocks, range) => setFormatValue(blocks, range, 'highlight', undefined)); setIsHighlightOpen(false); }}
+                 className="p-0.5 rounded text-slate-500 hover:bg-slate-100"
+                 title="清除高亮"
+                 type="button"
+               >
+                 <Eraser className="w-4 h-4" />
+               </button>
+              </div>
+             </div>
+           )}
+         </div>
+
+         {divider}
+
+         <button
+           onMouseDown={keepSelection}
+           onClick={() => applyFormat((blocks, range) => toggleList(blocks, range, 'bullet'))}
+           className={buttonClass(toolbar.blockType === 'bullet')}
+           title="项目符号列表"
+           type="button"
+         >
+           <List className="w-4 h-4" />
+         </button>
+         <button
+           onMouseDown={keepSelection}
+           onClick={() => applyFormat((blocks, range) => toggleList(blocks, range, 'ordered'))}
+           className={buttonClass(toolbar.blockType === 'ordered')}
+           title="编号列表"
+           type="button"
+         >
+           <ListOrdered className="w-4 h-4" />
+         </button>
+
+         <select
+           value={toolbar.lineHeight || ''}
+           onChange={(e) => applyFormat((blocks, range) => setLineHeight(blocks, range, e.target.value || undefined))}
+           className={selectClass}
+           title="行距 (光标所在段落)"
+         >
+           {LINE_HEIGHTS.map(height => <option key={height.label} value={height.value || ''}>行距 {height.label}</option>)}
+         </select>
       </div>
 
       {/* 编辑区域 - 移除 dangerouslySetInnerHTML 以避免 React 冲突 */}
@@ -87,9 +288,11 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         contentEditable
         suppressContentEditableWarning
         onInput={handleInput}
+        onPaste={handlePaste}
+        onKeyDown={handleKeyDown}
         onFocus={() => { isFocused.current = true; }}
         onBlur={() => { isFocused.current = false; }}
-        className="flex-1 p-3 outline-none text-sm text-[rgb(29,29,31)] overflow-y-auto [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:bg-slate-200 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-track]:bg-transparent"
+        className={`flex-1 p-3 outline-none ${RICH_TEXT_LIST_CLASSES} text-sm text-[rgb(29,29,31)] overflow-y-auto [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:bg-slate-200 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-track]:bg-transparent`}
         style={{ whiteSpace: 'pre-wrap', minHeight }}
       />
     </div>
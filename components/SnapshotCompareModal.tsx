@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, RotateCcw, GitBranch, Loader2 } from 'lucide-react';
+import PosterPreview from './PosterPreview';
+import { DEFAULT_LAYOUT_ID } from './posterLayouts';
+import { PosterData, ImageConfig, PosterTheme, SavedRecord } from '../types';
+import { DEFAULT_THEME } from '../themes';
+import { DraftSnapshot } from '../services/db';
+import { resolveRecordImages } from '../services/draftAssets';
+import { upgradeRecord } from '../services/projectFormat';
+
+interface SnapshotCompareModalProps {
+  snapshot: DraftSnapshot;
+  current: {
+    posterData: PosterData;
+    imageConfig: ImageConfig;
+    theme: PosterTheme;
+    layoutId: string;
+  };
+  onRestore: (snapshot: DraftSnapshot) => void;
+  onBranch: (snapshot: DraftSnapshot) => void;
+  onClose: () => void;
+}
+
+// Shows a saved version next to the current editor state. Both posters sit in
+// one scroll container so the same section lines up while scrolling.
+const SnapshotCompareModal: React.FC<SnapshotCompareModalProps> = ({ snapshot, current, onRestore, onBranch, onClose }) => {
+  const [record, setRecord] = useState<SavedRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const resolved = await resolveRecordImages(upgradeRecord(snapshot.record));
+        if (!cancelled) setRecord(resolved);
+      } catch (err) {
+        console.error("Snapshot preview failed", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [snapshot]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-600"/> 版本对比
+            <span className="text-xs font-normal text-slate-400 ml-1">
+              {snapshot.name} · {new Date(snapshot.savedAt).toLocaleString()}
+            </span>
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto bg-slate-100">
+          <div className="grid grid-cols-2 gap-6 p-6 justify-items-center">
+            <div className="text-xs font-medium text-slate-500">当前编辑</div>
+            <div className="text-xs font-medium text-indigo-600">历史版本</div>
+            <div className="pointer-events-none shadow-lg">
+              <PosterPreview
+                id="compare-current"
+                data={current.posterData}
+                imageConfig={current.imageConfig}
+                onImageConfigChange={() => {}}
+                theme={current.theme}
+                layoutId={current.layoutId}
+              />
+            </div>
+            <div className="pointer-events-none shadow-lg">
+              {record ? (
+                <PosterPreview
+                  id="compare-snapshot"
+                  data={record.data}
+                  imageConfig={record.imageConfig}
+                  onImageConfigChange={() => {}}
+                  theme={record.theme || DEFAULT_THEME}
+                  layoutId={record.layoutId || DEFAULT_LAYOUT_ID}
+                />
+              ) : (
+                <div className="w-[375px] h-64 flex items-center justify-center text-sm text-slate-400 bg-white">
+                  {error ? `无法读取该版本：${error}` : <Loader2 className="w-5 h-5 animate-spin" />}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 flex gap-3 justify-end border-t border-slate-100 shrink-0">
+          <button
+            onClick={() => onBranch(snapshot)}
+            disabled={!!error}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <GitBranch size={16} />
+            另存为新草稿
+          </button>
+          <button
+            onClick={() => onRestore(snapshot)}
+            disabled={!!error}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <RotateCcw size={16} />
+            恢复此版本
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotCompareModal;
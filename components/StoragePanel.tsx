@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, HardDrive, Loader2, ShieldCheck, Shield, History, ImageDown, Trash2 } from 'lucide-react';
+import {
+  StorageEstimate,
+  StorageReport,
+  DraftUsage,
+  formatBytes,
+  getStorageEstimate,
+  requestPersistentStorage,
+  measureStorage,
+  deleteSnapshotsOlderThan,
+  findDraftsOlderThan,
+  recompressImages,
+  DEFAULT_RECOMPRESS_OPTIONS
+} from '../services/storageUsage';
+import { indexedDbProvider } from '../services/storageProvider';
+
+interface StoragePanelProps {
+  // Drafts or snapshots were removed or rewritten by a cleanup tool
+  onDraftsChanged: () => void;
+  onClose: () => void;
+}
+
+const LARGEST_ASSETS = 8;
+
+const draftTotal = (d: DraftUsage) => d.recordBytes + d.imageBytes + d.snapshotBytes;
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ onDraftsChanged, onClose }) => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [busy, setBusy] = useState<string | null>(null); // Label of the running task
+  const [message, setMessage] = useState<string | null>(null);
+  const [snapshotDays, setSnapshotDays] = useState(30);
+  const [draftDays, setDraftDays] = useState(180);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextEstimate, nextReport] = await Promise.all([getStorageEstimate(), measureStorage()]);
+      setEstimate(nextEstimate);
+      setReport(nextReport);
+    } catch (e) {
+      console.error("Failed to measure storage", e);
+      setMessage("读取存储信息失败");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Previews for the largest images; revoked when the report changes
+  const previews = useMemo(
+    () => (report?.assets.slice(0, LARGEST_ASSETS) || []).map(a => ({ ...a, url: URL.createObjectURL(a.asset.blob) })),
+    [report]
+  );
+  useEffect(() => () => previews.forEach(p => URL.revokeObjectURL(p.url)), [previews]);
+
+  const runTask = async (label: string, task: () => Promise<string | null>) => {
+    setBusy(label);
+    setMessage(null);
+    try {
+      const result = await task();
+      if (result) setMessage(result);
+      await refresh();
+    } catch (e) {
+      console.error(`${label} failed`, e);
+      const msg = e instanceof Error ? e.message : String(e);
+      setMessage(`${label}失败 (${msg})`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePersist = () => runTask('申请持久存储', async () =>
+    (await requestPersistentStorage())
+      ? '浏览器已将草稿库设为持久存储，不会被自动清除。'
+      : '浏览器未同意持久存储。将本站加入书签或安装为应用后再试，通常更容易获准。'
+  );
+
+  const handleDeleteSnapshots = () => runTask('清理历史版本', async () => {
+    const count = await deleteSnapshotsOlderThan(snapshotDays);
+    onDraftsChanged();
+    return `已删除 ${count} 个 ${snapshotDays} 天前的历史版本。`;
+  });
+
+  const handleRecompress = () => runTask('压缩图片', async () => {
+    if (!window.confirm(`将大于 ${formatBytes(DEFAULT_RECOMPRESS_OPTIONS.minBytes)} 的图片重新压缩（宽度超过 ${DEFAULT_RECOMPRESS_OPTIONS.maxWidth}px 的同时缩小），所有草稿和历史版本都会使用压缩后的图片。此操作不可撤销，是否继续？`)) return null;
+    const { count, savedBytes } = await recompressImages(DEFAULT_RECOMPRESS_OPTIONS, (done, total) =>
+      setBusy(`压缩图片 ${done}/${total}`)
+    );
+    onDraftsChanged();
+    return count ? `已压缩 ${count} 张图片，节省 ${formatBytes(savedBytes)}。` : '没有可以进一步压缩的图片。';
+  });
+
+  const handleDeleteOldDrafts = () => runTask('删除旧草稿', async () => {
+    const ids = await findDraftsOlderThan(draftDays);
+    if (!ids.length) return `没有超过 ${draftDays} 天未修改的草稿。`;
+    if (!window.confirm(`将删除 ${ids.length} 个超过 ${draftDays} 天未修改的草稿及其历史版本，此操作不可撤销。是否继续？`)) return null;
+    await indexedDbProvider.delete(ids);
+    onDraftsChanged();
+    return `已删除 ${ids.length} 个草稿。`;
+  });
+
+  const usageRatio = estimate && estimate.quota ? Math.min(1, estimate.usage / estimate.quota) : 0;
+  const dayInputClass = "w-14 px-2 py-0.5 text-right text-xs bg-white border border-slate-200 rounded focus:border-indigo-500 focus:outline-none font-mono";
+  const toolButtonClass = "px-3 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-300 transition-colors disabled:opacity-50 flex items-center gap-1";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between shrink-0">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <HardDrive className="w-5 h-5 text-indigo-600"/> 存储空间
+          </h3>
+          <button onClick={onClose} disabled={!!busy} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-5 flex-1 overflow-y-auto space-y-6">
+          {/* Quota */}
+          <section className="space-y-2">
+            {estimate ? (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-700">已用 {formatBytes(estimate.usage)} / 可用 {formatBytes(estimate.quota)}</span>
+                  <span className={`text-xs ${usageRatio > 0.8 ? 'text-red-500' : 'text-slate-400'}`}>{(usageRatio * 100).toFixed(1)}%</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${usageRatio > 0.8 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                    style={{ width: `${Math.max(usageRatio * 100, 1)}%` }}
+                  />
+                </div>
+                <div className="flex items-center justify-between text-xs">
+                  <span className={`flex items-center gap-1 ${estimate.persisted ? 'text-emerald-600' : 'text-slate-500'}`}>
+                    {estimate.persisted ? <ShieldCheck size={14} /> : <Shield size={14} />}
+                    {estimate.persisted ? '持久存储：浏览器不会自动清除草稿' : '非持久存储：磁盘空间不足时浏览器可能清除草稿'}
+                  </span>
+                  {!estimate.persisted && (
+                    <button onClick={handlePersist} disabled={!!busy} className="text-indigo-600 hover:underline disabled:opacity-50">
+                      申请持久存储
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-slate-400">{report ? '当前浏览器不提供存储用量信息' : '正在统计...'}</div>
+            )}
+          </section>
+
+          {/* Per-draft usage */}
+          <section>
+            <h4 className="text-sm font-bold text-slate-700 mb-2">草稿占用</h4>
+            {!report ? (
+              <Loader2 size={16} className="animate-spin text-slate-400" />
+            ) : report.drafts.length === 0 ? (
+              <div className="text-xs text-slate-400">浏览器存储中没有草稿</div>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-400 text-left">
+                    <th className="font-normal py-1">名称</th>
+                    <th className="font-normal py-1 text-right">草稿</th>
+                    <th className="font-normal py-1 text-right">图片</th>
+                    <th className="font-normal py-1 text-right">历史版本</th>
+                    <th className="font-normal py-1 text-right">合计</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.drafts.map(d => (
+                    <tr key={d.id}>
+                      <td className="py-1.5 pr-2 max-w-[180px] truncate text-slate-700" title={d.name}>{d.name}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-500">{formatBytes(d.recordBytes)}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-500">{formatBytes(d.imageBytes)}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-500">{d.snapshotCount} 个 · {formatBytes(d.snapshotBytes)}</td>
+                      <td className="py-1.5 text-right font-mono text-slate-800">{formatBytes(draftTotal(d))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="text-[10px] text-slate-400 mt-1">* 多个草稿共用的图片只存储一份，但会计入每个使用它的草稿。</p>
+          </section>
+
+          {/* Largest images */}
+          {previews.length > 0 && (
+            <section>
+              <h4 className="text-sm font-bold text-slate-700 mb-2">
+                最大的图片 <span className="font-normal text-xs text-slate-400">共 {report?.assets.length} 张 · {formatBytes(report?.assetBytes || 0)}</span>
+              </h4>
+              <div className="grid grid-cols-4 gap-2">
+                {previews.map(({ asset, usedBy, url }) => (
+                  <div key={asset.hash} className="border border-slate-200 rounded-lg overflow-hidden">
+                    <img src={url} alt="" className="w-full h-20 object-cover bg-slate-100" />
+                    <div className="p-1.5 text-[10px]">
+                      <div className="font-mono text-slate-700">{formatBytes(asset.size)}</div>
+                      <div className="text-slate-400 truncate" title={usedBy.join('、')}>
+                        {usedBy.length ? usedBy.join('、') : '未被使用'}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Cleanup */}
+          <section className="space-y-2">
+            <h4 className="text-sm font-bold text-slate-700">清理</h4>
+            <div className="flex items-center justify-between gap-2 text-xs text-slate-600">
+              <span className="flex items-center gap-1.5">
+                删除
+                <input type="number" min="0" value={snapshotDays} onChange={(e) => setSnapshotDays(Math.max(0, parseInt(e.target.value) || 0))} className={dayInputClass} />
+                天前的历史版本
+              </span>
+              <button onClick={handleDeleteSnapshots} disabled={!!busy} className={toolButtonClass}>
+                <History size={12} /> 清理
+              </button>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs text-slate-600">
+              <span>重新压缩大图（最大宽度 {DEFAULT_RECOMPRESS_OPTIONS.maxWidth}px）</span>
+              <button onClick={handleRecompress} disabled={!!busy} className={toolButtonClass}>
+                <ImageDown size={12} /> 压缩
+              </button>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs text-slate-600">
+              <span className="flex items-center gap-1.5">
+                删除超过
+                <input type="number" min="1" value={draftDays} onChange={(e) => setDraftDays(Math.max(1, parseInt(e.target.value) || 1))} className={dayInputClass} />
+                天未修改的草稿
+              </span>
+              <button onClick={handleDeleteOldDrafts} disabled={!!busy} className={`${toolButtonClass} hover:!text-red-600 hover:!border-red-300 hover:!bg-red-50`}>
+                <Trash2 size={12} /> 删除
+              </button>
+            </div>
+          </section>
+
+          {(busy || message) && (
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-600 flex items-center gap-2">
+              {busy && <Loader2 size={14} className="animate-spin shrink-0" />}
+              {busy ? `${busy}...` : message}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { X, CloudAlert, Upload, Copy, Download, Loader2, Image as ImageIcon } from 'lucide-react';
+import { SavedRecord } from '../types';
+
+interface SyncConflictModalProps {
+  local: SavedRecord;
+  remote: SavedRecord | null; // null when the draft was deleted on the server
+  isBusy: boolean;
+  onOverwrite: () => void;
+  onSaveCopy: () => void;
+  onLoadRemote: () => void;
+  onClose: () => void;
+}
+
+const VersionCard: React.FC<{ title: string; record: SavedRecord | null; accent?: boolean }> = ({ title, record, accent }) => (
+  <div className={`flex-1 border rounded-lg p-3 ${accent ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-200'}`}>
+    <div className={`text-xs font-medium mb-2 ${accent ? 'text-indigo-600' : 'text-slate-500'}`}>{title}</div>
+    <div className="w-full aspect-[4/3] rounded bg-slate-100 overflow-hidden flex items-center justify-center mb-2">
+      {record?.thumbnail
+        ? <img src={record.thumbnail} alt="" className="w-full h-full object-cover object-top" />
+        : <ImageIcon size={20} className="text-slate-300" />}
+    </div>
+    {record ? (
+      <>
+        <div className="text-sm font-medium text-slate-800 truncate">{record.name}</div>
+        <div className="text-[11px] text-slate-400">{new Date(record.timestamp).toLocaleString()}</div>
+      </>
+    ) : (
+      <div className="text-sm text-slate-400">已被删除</div>
+    )}
+  </div>
+);
+
+// Shown when the sync server rejects a save because the draft changed (or
+// disappeared) since it was opened.
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ local, remote, isBusy, onOverwrite, onSaveCopy, onLoadRemote, onClose }) => (
+  <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+    <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+      <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <CloudAlert className="w-5 h-5 text-amber-500"/> 同步冲突
+        </h3>
+        <button onClick={onClose} disabled={isBusy} className="p-1 hover:bg-slate-100 rounded-full transition-colors">
+          <X className="w-5 h-5 text-slate-500" />
+        </button>
+      </div>
+
+      <div className="p-5 space-y-4">
+        <p className="text-sm text-slate-600">
+          {remote
+            ? '你打开这个草稿后，其他人已在服务器上保存了新的版本。请选择如何处理你的修改：'
+            : '你打开这个草稿后，它已被其他人从服务器上删除。请选择如何处理你的修改：'}
+        </p>
+        <div className="flex gap-3">
+          <VersionCard title="我的版本" record={local} accent />
+          <VersionCard title="服务器版本" record={remote} />
+        </div>
+      </div>
+
+      <div className="p-4 bg-slate-50 flex flex-wrap gap-2 justify-end border-t border-slate-100">
+        {remote && (
+          <button
+            onClick={onLoadRemote}
+            disabled={isBusy}
+            className="px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Download size={16} /> 放弃修改，载入服务器版本
+          </button>
+        )}
+        <button
+          onClick={onSaveCopy}
+          disabled={isBusy}
+          className="px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Copy size={16} /> 另存为副本
+        </button>
+        <button
+          onClick={onOverwrite}
+          disabled={isBusy}
+          className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors flex items-center gap-1.5 disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+          {remote ? '覆盖服务器版本' : '重新上传'}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default SyncConflictModal;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { AlignLeft, AlignCenter, AlignRight, BetweenHorizontalEnd, BetweenVerticalEnd, TableCellsMerge, TableCellsSplit, Minus } from 'lucide-react';
+import { TableAlign, TableData } from '../types';
+import {
+  CellRange,
+  columnCount,
+  coveredCells,
+  isMerged,
+  mergeCells,
+  splitCell,
+  setCellText,
+  setColumnAlign,
+  insertRow,
+  removeRow,
+  insertColumn,
+  removeColumn,
+  parseTabularText,
+  pasteGrid,
+  MAX_TABLE_ROWS,
+  MAX_TABLE_COLUMNS
+} from '../services/tableData';
+import { HistoryUpdateOptions } from '../hooks/useHistory';
+
+interface TableEditorProps {
+  table: TableData;
+  onChange: (table: TableData, options?: HistoryUpdateOptions) => void;
+  historyGroup: string; // Prefix for grouping keystrokes in one cell into a single undo step
+}
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+const ALIGN_OPTIONS: [TableAlign, React.ElementType, string][] = [
+  ['left', AlignLeft, '左对齐'],
+  ['center', AlignCenter, '居中'],
+  ['right', AlignRight, '右对齐']
+];
+
+// Sidebar grid for table blocks. Click a cell to select it, Shift+click to
+// extend the selection for merging; pasting tab-separated text fills the grid
+// from the focused cell.
+const TableEditor: React.FC<TableEditorProps> = ({ table, onChange, historyGroup }) => {
+  const [anchor, setAnchor] = useState<CellPosition>({ row: 0, col: 0 });
+  const [focus, setFocus] = useState<CellPosition>({ row: 0, col: 0 });
+
+  const rows = table.rows.length;
+  const cols = columnCount(table);
+  // Rows or columns may have been removed (or undone) since the last click
+  const clamp = (p: CellPosition): CellPosition => ({ row: Math.min(p.row, rows - 1), col: Math.min(p.col, cols - 1) });
+  const start = clamp(anchor);
+  const end = clamp(focus);
+  const selection: CellRange = {
+    top: Math.min(start.row, end.row),
+    left: Math.min(start.col, end.col),
+    bottom: Math.max(start.row, end.row),
+    right: Math.max(start.col, end.col)
+  };
+  const isSelected = (row: number, col: number) =>
+    row >= selection.top && row <= selection.bottom && col >= selection.left && col <= selection.right;
+  const canMerge = selection.bottom > selection.top || selection.right > selection.left;
+  const canSplit = isMerged(table.rows[start.row][start.col]);
+  const covered = coveredCells(table);
+
+  const select = (row: number, col: number, extend: boolean) => {
+    if (!extend) setAnchor({ row, col });
+    setFocus({ row, col });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const grid = parseTabularText(e.clipboardData.getData('text/plain'));
+    if (!grid) return; // A single value: let the input handle it
+    e.preventDefault();
+    onChange(pasteGrid(table, row, col, grid));
+    const height = Math.min(grid.length, MAX_TABLE_ROWS - row);
+    const width = Math.min(Math.max(...grid.map(line => line.length)), MAX_TABLE_COLUMNS - col);
+    setAnchor({ row, col });
+    setFocus({ row: row + height - 1, col: col + width - 1 });
+  };
+
+  const handleMerge = () => {
+    onChange(mergeCells(table, selection));
+    setAnchor({ row: selection.top, col: selection.left });
+    setFocus({ row: selection.top, col: selection.left });
+  };
+
+  const toolButtonClass = "px-1.5 py-1 rounded hover:bg-slate-100 text-slate-500 hover:text-indigo-600 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500 flex items-center gap-0.5 text-[10px]";
+
+  return (
+    <div className="w-full border border-slate-200 rounded-lg bg-white overflow-hidden">
+      {/* Structure */}
+      <div className="flex flex-wrap items-center gap-0.5 p-1.5 border-b border-slate-200 select-none">
+        <button type="button" onClick={() => onChange(insertRow(table, selection.bottom + 1))} disabled={rows >= MAX_TABLE_ROWS} className={toolButtonClass} title="在下方插入行">
+          <BetweenHorizontalEnd size={14} /> 行
+        </button>
+        <button type="button" onClick={() => onChange(removeRow(table, start.row))} disabled={rows <= 1} className={toolButtonClass} title="删除所在行">
+          <Minus size={12} /> 行
+        </button>
+        <button type="button" onClick={() => onChange(insertColumn(table, selection.right + 1))} disabled={cols >= MAX_TABLE_COLUMNS} className={toolButtonClass} title="在右侧插入列">
+          <BetweenVerticalEnd size={14} /> 列
+        </button>
+        <button type="button" onClick={() => onChange(removeColumn(table, start.col))} disabled={cols <= 1} className={toolButtonClass} title="删除所在列">
+          <Minus size={12} /> 列
+        </button>
+
+        <div className="h-4 w-px bg-slate-200 mx-1"></div>
+
+        <button type="button" onClick={handleMerge} disabled={!canMerge} className={toolButtonClass} title="合并选中的单元格 (Shift+点击扩展选区)">
+          <TableCellsMerge size={14} /> 合并
+        </button>
+        <button type="button" onClick={() => onChange(splitCell(table, start.row, start.col))} disabled={!canSplit} className={toolButtonClass} title="拆分合并的单元格">
+          <TableCellsSplit size={14} /> 拆分
+        </button>
+
+        <div className="h-4 w-px bg-slate-200 mx-1"></div>
+
+        {ALIGN_OPTIONS.map(([align, Icon, title]) => (
+          <button
+            key={align}
+            type="button"
+            onClick={() => onChange(setColumnAlign(table, start.col, align))}
+            className={`p-1 rounded hover:bg-slate-100 ${table.columnAligns[start.col] === align ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400'}`}
+            title={`第 ${start.col + 1} 列${title}`}
+          >
+            <Icon className="w-3 h-3" />
+          </button>
+        ))}
+      </div>
+
+      {/* Grid */}
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse table-fixed text-xs">
+          <tbody>
+            {table.rows.map((row, r) => (
+              <tr key={r} className={table.headerRow && r === 0 ? 'bg-slate-100 font-medium' : table.striped && (r - (table.headerRow ? 1 : 0)) % 2 === 1 ? 'bg-slate-50' : ''}>
+                {row.map((cell, c) => covered.has(`${r}:${c}`) ? null : (
+                  <td
+                    key={c}
+                    rowSpan={cell.rowSpan}
+                    colSpan={cell.colSpan}
+                    className={`border border-slate-200 p-0 ${isSelected(r, c) ? 'bg-indigo-50/80' : ''}`}
+                  >
+                    <input
+                      value={cell.text}
+                      onChange={(e) => onChange(setCellText(table, r, c, e.target.value), { group: `${historyGroup}:${r}:${c}` })}
+                      onMouseDown={(e) => {
+                        if (!e.shiftKey) return;
+                        // Shift+click extends the selection and keeps the caret where it was
+                        e.preventDefault();
+                        select(r, c, true);
+                      }}
+                      onFocus={() => select(r, c, false)}
+                      onPaste={(e) => handlePaste(e, r, c)}
+                      className="w-full min-w-[3rem] px-1.5 py-1 bg-transparent focus:outline-none focus:bg-white"
+                      style={{ textAlign: table.columnAligns[c] }}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Appearance */}
+      <div className="flex items-center gap-4 px-2 py-1.5 border-t border-slate-100 text-[10px] text-slate-500">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={table.headerRow} onChange={(e) => onChange({ ...table, headerRow: e.target.checked })} className="accent-indigo-500" />
+          首行作为表头
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={table.striped} onChange={(e) => onChange({ ...table, striped: e.target.checked })} className="accent-indigo-500" />
+          斑马纹
+        </label>
+        <span className="ml-auto text-slate-400">可直接粘贴表格软件中复制的数据</span>
+      </div>
+    </div>
+  );
+};
+
+export default TableEditor;
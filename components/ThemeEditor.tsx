@@ -0,0 +1,96 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { PosterTheme } from '../types';
+import { THEME_PRESETS } from '../themes';
+
+interface ThemeEditorProps {
+  theme: PosterTheme;
+  onChange: (update: Partial<PosterTheme>, key: keyof PosterTheme | 'preset') => void;
+}
+
+const COLOR_FIELDS: { key: keyof PosterTheme; label: string }[] = [
+  { key: 'pageBackground', label: '页面背景' },
+  { key: 'cardBackground', label: '卡片背景' },
+  { key: 'accentColor', label: '标签底色' },
+  { key: 'labelTextColor', label: '标签文字' },
+  { key: 'headingColor', label: '标题文字' },
+  { key: 'textColor', label: '正文文字' }
+];
+
+const RADIUS_FIELDS: { key: 'cardRadius' | 'imageRadius'; label: string }[] = [
+  { key: 'cardRadius', label: '卡片圆角' },
+  { key: 'imageRadius', label: '图片圆角' }
+];
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange }) => {
+  return (
+    <div className="space-y-4">
+      {/* Presets */}
+      <div className="grid grid-cols-4 gap-2">
+        {THEME_PRESETS.map(preset => {
+          const isActive = theme.presetId === preset.id;
+          return (
+            <button
+              key={preset.id}
+              onClick={() => onChange({ ...preset.theme }, 'preset')}
+              className={`relative rounded-lg border p-2 flex flex-col items-center gap-1.5 transition-colors ${
+                isActive ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+              }`}
+              title={`应用“${preset.name}”主题`}
+            >
+              <div
+                className="w-full h-8 rounded flex items-center justify-center"
+                style={{ backgroundColor: preset.theme.pageBackground }}
+              >
+                <div
+                  className="w-3/4 h-4 rounded-sm flex items-center px-1"
+                  style={{ backgroundColor: preset.theme.cardBackground }}
+                >
+                  <div className="w-3 h-1.5 rounded-full" style={{ backgroundColor: preset.theme.accentColor }} />
+                </div>
+              </div>
+              <span className="text-[10px] text-slate-600">{preset.name}</span>
+              {isActive && <Check size={10} className="absolute top-1 right-1 text-indigo-600" />}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Colors */}
+      <div className="grid grid-cols-3 gap-2">
+        {COLOR_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 p-1.5 border border-slate-200 rounded cursor-pointer hover:border-indigo-300">
+            <input
+              type="color"
+              value={theme[key] as string}
+              onChange={(e) => onChange({ [key]: e.target.value }, key)}
+              className="w-5 h-5 p-0 border-none bg-transparent cursor-pointer shrink-0"
+            />
+            <span className="text-[10px] text-slate-600 truncate">{label}</span>
+          </label>
+        ))}
+      </div>
+
+      {/* Radii */}
+      <div className="space-y-2">
+        {RADIUS_FIELDS.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-2 text-[10px] text-slate-500">
+            <span className="w-14 shrink-0">{label}</span>
+            <input
+              type="range"
+              min="0"
+              max="24"
+              step="0.5"
+              value={theme[key]}
+              onChange={(e) => onChange({ [key]: Number(e.target.value) }, key)}
+              className="flex-1 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+            <span className="w-10 text-right font-mono">{theme[key]}px</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
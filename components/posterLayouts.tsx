@@ -0,0 +1,120 @@
+import React from 'react';
+import { PosterTheme } from '../types';
+
+// Pre-rendered pieces of the poster handed to a layout.
+// The header keeps its drag/zoom interaction no matter where a layout places it.
+export interface PosterLayoutSlots {
+  theme: PosterTheme;
+  title: React.ReactNode; // Title text (editable in the live preview), placeholder included
+  header: React.ReactNode;
+  titleCard: React.ReactNode;
+  afterTitle: React.ReactNode; // Optional sections that follow the title (e.g. marketing copy)
+  detailsCard: React.ReactNode;
+  content: React.ReactNode;
+}
+
+export interface PosterLayout {
+  id: string;
+  name: string;
+  description: string;
+  headerHeight: number; // In pixels
+  render: (slots: PosterLayoutSlots) => React.ReactNode;
+}
+
+export const DEFAULT_LAYOUT_ID = 'classic';
+
+export const POSTER_LAYOUTS: PosterLayout[] = [
+  {
+    // Original layout: header, overlapping title card, details card, content
+    id: 'classic',
+    name: '经典卡片',
+    description: '头图 + 叠压标题卡 + 活动详情',
+    headerHeight: 320,
+    render: ({ header, titleCard, afterTitle, detailsCard, content }) => (
+      <>
+        {header}
+        <div className="flex-1 flex flex-col px-4 -mt-10 relative z-10 pb-8 space-y-4">
+          {titleCard}
+          {afterTitle}
+          {detailsCard}
+          {content}
+        </div>
+      </>
+    )
+  },
+  {
+    // Tall full-bleed header with the title laid over a gradient
+    id: 'hero',
+    name: '全幅大图',
+    description: '通栏头图，标题叠加在图片上',
+    headerHeight: 460,
+    render: ({ header, title, afterTitle, detailsCard, content }) => (
+      <>
+        <div className="relative shrink-0">
+          {header}
+          <div className="absolute inset-x-0 bottom-0 px-6 pb-7 pt-20 bg-gradient-to-t from-black/60 to-transparent pointer-events-none">
+            <h2 className="text-[1.45rem] font-bold leading-snug text-white whitespace-pre-wrap drop-shadow pointer-events-auto">
+              {title}
+            </h2>
+          </div>
+        </div>
+        <div className="flex-1 flex flex-col px-4 pt-5 pb-8 space-y-4">
+          {afterTitle}
+          {detailsCard}
+          {content}
+        </div>
+      </>
+    )
+  },
+  {
+    // Content-first: the details card closes the page
+    id: 'details-last',
+    name: '详情置后',
+    description: '先展示图文内容，活动详情放在末尾',
+    headerHeight: 320,
+    render: ({ header, titleCard, afterTitle, detailsCard, content }) => (
+      <>
+        {header}
+        <div className="flex-1 flex flex-col px-4 -mt-10 relative z-10 pb-8 space-y-4">
+          {titleCard}
+          {afterTitle}
+          {content}
+          {detailsCard}
+        </div>
+      </>
+    )
+  },
+  {
+    // Framed header with an editorial headline underneath
+    id: 'magazine',
+    name: '杂志风',
+    description: '留白边框头图 + 大字号标题',
+    headerHeight: 400,
+    render: ({ theme, header, title, afterTitle, detailsCard, content }) => (
+      <>
+        <div className="px-5 pt-5 shrink-0">
+          <div className="overflow-hidden" style={{ borderRadius: `${theme.imageRadius}px` }}>
+            {header}
+          </div>
+        </div>
+        <div className="px-6 pt-6 pb-2">
+          <div className="w-10 h-1 mb-4" style={{ backgroundColor: theme.accentColor }} />
+          <h2
+            className="text-[1.6rem] font-bold leading-tight tracking-tight whitespace-pre-wrap"
+            style={{ color: theme.headingColor }}
+          >
+            {title}
+          </h2>
+        </div>
+        <div className="flex-1 flex flex-col px-4 pt-4 pb-8 space-y-4">
+          {afterTitle}
+          {content}
+          {detailsCard}
+        </div>
+      </>
+    )
+  }
+];
+
+export const getPosterLayout = (id?: string): PosterLayout =>
+  POSTER_LAYOUTS.find(layout => layout.id === id) || POSTER_LAYOUTS[0];
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+
+// Quiet period after the last change before the working state is written
+const AUTOSAVE_DELAY_MS = 1500;
+
+/**
+ * Debounced background save: `save` runs once `value` has stopped changing
+ * for `delay` ms. A pending save is flushed when the page is hidden, so
+ * closing the tab right after an edit still persists it.
+ */
+export function useAutosave<T>(value: T, save: (value: T) => Promise<void>, enabled: boolean = true, delay: number = AUTOSAVE_DELAY_MS) {
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let pending = true;
+    const run = () => {
+      if (!pending) return;
+      pending = false;
+      saveRef.current(value).catch(e => console.error('Autosave failed', e));
+    };
+
+    const timer = window.setTimeout(run, delay);
+    window.addEventListener('pagehide', run);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('pagehide', run);
+    };
+  }, [value, enabled, delay]);
+}
+
+/**
+ * Asks the browser to confirm leaving the page while `when` is true.
+ */
+export function useUnsavedChangesWarning(when: boolean) {
+  useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = ''; // Required by older Chrome / Safari
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [when]);
+}
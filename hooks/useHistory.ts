@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useReducer } from 'react';
+
+// Maximum number of undo steps kept in memory
+const HISTORY_LIMIT = 100;
+// Consecutive updates sharing a group key within this window collapse into one step
+const GROUP_WINDOW_MS = 800;
+
+export interface HistoryUpdateOptions {
+  // Changes with the same key arriving in quick succession (typing, dragging,
+  // wheel zoom) are merged into a single undo step.
+  group?: string;
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastGroup: string | null;
+  lastTime: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; updater: (prev: T) => T; group?: string; time: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; value: T };
+
+function historyReducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case 'set': {
+      const next = action.updater(state.present);
+      if (next === state.present) return state;
+
+      // Merge into the current step instead of pushing a new one
+      const canMerge = !!action.group
+        && action.group === state.lastGroup
+        && action.time - state.lastTime < GROUP_WINDOW_MS;
+
+      if (canMerge) {
+        return { ...state, present: next, future: [], lastTime: action.time };
+      }
+
+      return {
+        past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastGroup: action.group ?? null,
+        lastTime: action.time
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      const previous = state.past[state.past.length - 1];
+      return {
+        past: state.past.slice(0, -1),
+        present: previous,
+        future: [state.present, ...state.future],
+        lastGroup: null,
+        lastTime: 0
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      const [next, ...rest] = state.future;
+      return {
+        past: [...state.past, state.present],
+        present: next,
+        future: rest,
+        lastGroup: null,
+        lastTime: 0
+      };
+    }
+    case 'reset':
+      return { past: [], present: action.value, future: [], lastGroup: null, lastTime: 0 };
+    default:
+      return state;
+  }
+}
+
+/**
+ * Undo/redo stack for an immutable document.
+ * Every `set` call records a step unless it can be grouped with the previous one.
+ */
+export function useHistory<T>(initialValue: T) {
+  const [state, dispatch] = useReducer(historyReducer<T>, {
+    past: [],
+    present: initialValue,
+    future: [],
+    lastGroup: null,
+    lastTime: 0
+  });
+
+  const set = useCallback((updater: (prev: T) => T, options: HistoryUpdateOptions = {}) => {
+    dispatch({ type: 'set', updater, group: options.group, time: Date.now() });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  // Replaces the document and clears both stacks (e.g. loading a draft)
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+}
+
+/**
+ * Global Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) bindings.
+ * Runs in the capture phase so the browser's native per-field undo never
+ * diverges from the document history.
+ */
+export function useHistoryShortcuts(undo: () => void, redo: () => void, enabled: boolean = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [undo, redo, enabled]);
+}
@@ -0,0 +1,111 @@
+// In-memory implementation of the draft sync API (see services/remoteStorage.ts).
+// Data is lost when the process exits. The tests start their own instance
+// through createMockSyncServer.
+//
+//   npm run mock-server            # http://localhost:8787
+//   PORT=9000 TOKEN=secret npm run mock-server
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag'
+};
+
+const etagOf = (body) => `"${createHash('sha1').update(body).digest('hex').slice(0, 16)}"`;
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const send = (res, status, body = '', headers = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, ...headers });
+  res.end(body);
+};
+
+const sendJson = (res, status, value, headers = {}) =>
+  send(res, status, typeof value === 'string' ? value : JSON.stringify(value), { 'Content-Type': 'application/json', ...headers });
+
+// 412 carries the current version so the client can show what changed; an
+// empty 412 means the draft was deleted
+const preconditionFailed = (res, current) =>
+  current ? sendJson(res, 412, current.body, { ETag: current.etag }) : send(res, 412);
+
+// A fresh server with empty storage; call listen() on it
+export const createMockSyncServer = ({ token = '' } = {}) => {
+  const drafts = new Map(); // id -> { etag, body }
+  const assets = new Map(); // hash -> { type, data }
+
+  return createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (token && req.headers.authorization !== `Bearer ${token}`) return send(res, 401);
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    const [, collection, rawId] = url.pathname.split('/');
+    const id = rawId && decodeURIComponent(rawId);
+
+    try {
+      if (collection === 'drafts' && !id && req.method === 'GET') {
+        const list = [...drafts.values()].map(d => `{"etag":${JSON.stringify(d.etag)},"project":${d.body}}`);
+        return sendJson(res, 200, `[${list.join(',')}]`);
+      }
+
+      if (collection === 'drafts' && id) {
+        const current = drafts.get(id);
+        const ifMatch = req.headers['if-match'];
+
+        if (req.method === 'GET') {
+          return current ? sendJson(res, 200, current.body, { ETag: current.etag }) : send(res, 404);
+        }
+        if (req.method === 'PUT') {
+          if (req.headers['if-none-match'] === '*' && current) return preconditionFailed(res, current);
+          if (ifMatch && (!current || ifMatch !== current.etag)) return preconditionFailed(res, current);
+          const body = (await readBody(req)).toString('utf8');
+          JSON.parse(body); // Reject malformed JSON with a 400
+          const etag = etagOf(body);
+          drafts.set(id, { etag, body });
+          return send(res, current ? 200 : 201, '', { ETag: etag });
+        }
+        if (req.method === 'DELETE') {
+          if (!current) return send(res, 404);
+          if (ifMatch && ifMatch !== current.etag) return preconditionFailed(res, current);
+          drafts.delete(id);
+          return send(res, 204);
+        }
+      }
+
+      if (collection === 'assets' && id) {
+        if (req.method === 'GET') {
+          const asset = assets.get(id);
+          return asset ? send(res, 200, asset.data, { 'Content-Type': asset.type }) : send(res, 404);
+        }
+        if (req.method === 'PUT') {
+          const data = await readBody(req);
+          assets.set(id, { type: req.headers['content-type'] || 'application/octet-stream', data });
+          return send(res, 201);
+        }
+      }
+
+      send(res, 404);
+    } catch (e) {
+      console.error(e);
+      send(res, 400, String(e));
+    }
+  });
+};
+
+// Run directly rather than imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  const token = process.env.TOKEN || '';
+  createMockSyncServer({ token }).listen(port, () => {
+    console.log(`Mock sync server on http://localhost:${port}${token ? ' (token required)' : ''}`);
+  });
+}
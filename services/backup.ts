@@ -0,0 +1,249 @@
+import JSZip from 'jszip';
+import { SavedRecord } from '../types';
+import { dbAPI, DraftSnapshot, StoredAsset } from './db';
+import { extensionForMime } from './imageUtils';
+import { collectAssetRefs, collectGarbageAssets, withAssetLock } from './draftAssets';
+import { snapshotDraft, pruneDraftSnapshots } from './draftHistory';
+import { upgradeRecord, readProjectAssets, describeIssues, isObject, ProjectAsset, ProjectFormatError, ValidationIssue } from './projectFormat';
+
+// --- Full Backup (.xqbak) ---
+// A zip of the whole local library:
+//   backup.json           drafts, their snapshots and the asset manifest
+//   assets/<sha256>.<ext>  every image those records reference
+// Records keep their "asset:<sha256>" references, exactly as stored in IndexedDB.
+
+export const BACKUP_EXTENSION = 'xqbak';
+const BACKUP_FORMAT = 'poster-detail-backup';
+const BACKUP_VERSION = 1;
+const BACKUP_ENTRY = 'backup.json';
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  createdAt: number;
+  drafts: SavedRecord[];
+  snapshots: DraftSnapshot[];
+  assets: Record<string, ProjectAsset>;
+}
+
+export const createBackup = async (): Promise<Blob> => {
+  const drafts = await dbAPI.getAll();
+  const snapshots = await dbAPI.getSnapshots();
+
+  const hashes = new Set<string>();
+  for (const record of [...drafts, ...snapshots.map(s => s.record)]) {
+    await collectAssetRefs(record, hashes);
+  }
+
+  const zip = new JSZip();
+  const assets: Record<string, ProjectAsset> = {};
+  for (const hash of hashes) {
+    const asset = await dbAPI.getAsset(hash);
+    if (!asset) continue; // Dangling reference; restoring keeps it dangling
+    const path = `assets/${hash}.${extensionForMime(asset.blob.type)}`;
+    assets[hash] = { path, type: asset.blob.type, size: asset.size };
+    zip.file(path, asset.blob, { compression: 'STORE' });
+  }
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    createdAt: Date.now(),
+    drafts,
+    snapshots,
+    assets
+  };
+  zip.file(BACKUP_ENTRY, JSON.stringify(backup));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/zip' });
+};
+
+// --- Restore ---
+
+export type ConflictResolution = 'keepBoth' | 'overwrite' | 'skip';
+
+export interface BackupConflict {
+  incoming: SavedRecord;
+  existing: SavedRecord;
+}
+
+export interface BackupContents {
+  createdAt: number;
+  drafts: SavedRecord[];
+  snapshots: DraftSnapshot[];
+  assetCount: number;
+  conflicts: BackupConflict[]; // Drafts whose id already exists locally
+  invalid: { name: string; reason: string }[]; // Drafts and versions that failed validation
+  zip: JSZip;
+  manifest: Record<string, ProjectAsset>;
+}
+
+export interface RestoreSummary {
+  added: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+}
+
+const describeError = (err: unknown): string =>
+  err instanceof ProjectFormatError && err.issues.length
+    ? describeIssues(err.issues, 3)
+    : err instanceof Error ? err.message : String(err);
+
+// A stored version with its record migrated and validated like a draft
+const readSnapshot = (raw: unknown): DraftSnapshot => {
+  if (!isObject(raw)) throw new ProjectFormatError('历史版本不是有效的对象');
+  const { id, draftId, savedAt, name, thumbnail } = raw;
+  const issues: ValidationIssue[] = [];
+  if (typeof id !== 'string') issues.push({ path: 'id', message: '应为文本' });
+  if (typeof draftId !== 'string') issues.push({ path: 'draftId', message: '应为文本' });
+  if (typeof savedAt !== 'number') issues.push({ path: 'savedAt', message: '应为数字' });
+  if (typeof name !== 'string') issues.push({ path: 'name', message: '应为文本' });
+  if (thumbnail !== undefined && typeof thumbnail !== 'string') issues.push({ path: 'thumbnail', message: '应为文本' });
+  if (issues.length) throw new ProjectFormatError(`历史版本有 ${issues.length} 处字段无效`, issues);
+
+  return {
+    id: id as string,
+    draftId: draftId as string,
+    savedAt: savedAt as number,
+    name: name as string,
+    ...(thumbnail !== undefined ? { thumbnail: thumbnail as string } : {}),
+    record: upgradeRecord(raw.record)
+  };
+};
+
+export const readBackup = async (file: Blob): Promise<BackupContents> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ProjectFormatError('文件不是有效的备份包');
+  }
+  const entry = zip.file(BACKUP_ENTRY);
+  if (!entry) throw new ProjectFormatError(`备份包中缺少 ${BACKUP_ENTRY}`);
+
+  let backup: unknown;
+  try {
+    backup = JSON.parse(await entry.async('string'));
+  } catch {
+    throw new ProjectFormatError(`${BACKUP_ENTRY} 不是有效的 JSON`);
+  }
+  if (!isObject(backup) || backup.format !== BACKUP_FORMAT || !Array.isArray(backup.drafts)) {
+    throw new ProjectFormatError('不是可识别的备份文件');
+  }
+  if (typeof backup.backupVersion === 'number' && backup.backupVersion > BACKUP_VERSION) {
+    throw new ProjectFormatError(`该备份由更新版本的编辑器创建（版本 ${backup.backupVersion}），请升级后再恢复`);
+  }
+
+  // Each draft goes through the same migrations and validation as a project file
+  const drafts: SavedRecord[] = [];
+  const invalid: BackupContents['invalid'] = [];
+  backup.drafts.forEach((raw, i) => {
+    try {
+      drafts.push(upgradeRecord(raw));
+    } catch (err) {
+      const name = isObject(raw) && typeof raw.name === 'string' && raw.name ? raw.name : `第 ${i + 1} 个草稿`;
+      invalid.push({ name, reason: describeError(err) });
+    }
+  });
+
+  // Versions of drafts that were left out go with them; broken ones are reported like drafts
+  const draftNames = new Map(drafts.map(d => [d.id, d.name]));
+  const snapshots: DraftSnapshot[] = [];
+  (Array.isArray(backup.snapshots) ? backup.snapshots : []).forEach((raw: unknown, i) => {
+    const draftId = isObject(raw) ? raw.draftId : undefined;
+    if (typeof draftId === 'string' && !draftNames.has(draftId)) return;
+    try {
+      snapshots.push(readSnapshot(raw));
+    } catch (err) {
+      const draftName = typeof draftId === 'string' ? draftNames.get(draftId) : undefined;
+      const name = draftName ? `${draftName} 的历史版本` : `第 ${i + 1} 个历史版本`;
+      invalid.push({ name, reason: describeError(err) });
+    }
+  });
+  const manifest = readProjectAssets(backup);
+
+  const conflicts: BackupConflict[] = [];
+  for (const incoming of drafts) {
+    const existing = await dbAPI.get(incoming.id);
+    if (existing) conflicts.push({ incoming, existing });
+  }
+
+  return {
+    createdAt: typeof backup.createdAt === 'number' ? backup.createdAt : 0,
+    drafts,
+    snapshots,
+    assetCount: Object.keys(manifest).length,
+    conflicts,
+    invalid,
+    zip,
+    manifest
+  };
+};
+
+// Merges a backup into the local library. Drafts without a local twin are
+// added as-is; conflicting ids follow `resolutions` (default: keep both).
+export const restoreBackup = async (
+  contents: BackupContents,
+  resolutions: Record<string, ConflictResolution>
+): Promise<RestoreSummary> => {
+  const summary: RestoreSummary = { added: 0, overwritten: 0, duplicated: 0, skipped: 0 };
+  const conflictIds = new Set(contents.conflicts.map(c => c.incoming.id));
+  const restored: { draft: SavedRecord; snapshots: DraftSnapshot[] }[] = [];
+  const replaced: SavedRecord[] = [];
+
+  contents.drafts.forEach((draft, i) => {
+    const snapshots = contents.snapshots.filter(s => s.draftId === draft.id);
+    if (!conflictIds.has(draft.id)) {
+      restored.push({ draft, snapshots });
+      summary.added++;
+      return;
+    }
+
+    const resolution = resolutions[draft.id] || 'keepBoth';
+    if (resolution === 'skip') {
+      summary.skipped++;
+    } else if (resolution === 'overwrite') {
+      restored.push({ draft, snapshots });
+      replaced.push(contents.conflicts.find(c => c.incoming.id === draft.id)!.existing);
+      summary.overwritten++;
+    } else {
+      // Re-key the draft and its history so both copies live side by side
+      const id = `${Date.now()}-${i}`;
+      restored.push({
+        draft: { ...draft, id, name: `${draft.name}（备份）` },
+        snapshots: snapshots.map(s => ({ ...s, id: `${id}-${s.savedAt}`, draftId: id, record: { ...s.record, id } }))
+      });
+      summary.duplicated++;
+    }
+  });
+
+  // Images first, so a restored draft never points at a missing asset
+  const hashes = new Set<string>();
+  for (const { draft, snapshots } of restored) {
+    await collectAssetRefs(draft, hashes);
+    for (const snapshot of snapshots) await collectAssetRefs(snapshot.record, hashes);
+  }
+  const assets: StoredAsset[] = [];
+  for (const hash of hashes) {
+    const asset = contents.manifest[hash];
+    const file = asset && contents.zip.file(asset.path);
+    if (!file) continue;
+    const blob = new Blob([await file.async('arraybuffer')], { type: asset.type });
+    assets.push({ hash, blob, size: blob.size, createdAt: Date.now() });
+  }
+  await withAssetLock(async () => {
+    await dbAPI.putAssets(assets);
+
+    // An overwritten local draft stays reachable from its version history
+    for (const existing of replaced) await snapshotDraft(existing);
+    for (const { draft, snapshots } of restored) {
+      await dbAPI.add(draft);
+      for (const snapshot of snapshots) await dbAPI.addSnapshot(snapshot);
+      // Imported and local history together stay within the version limit
+      await pruneDraftSnapshots(draft.id);
+    }
+  });
+  // Images only the pruned versions used
+  await collectGarbageAssets();
+  return summary;
+};
@@ -0,0 +1,163 @@
+import { PosterData, ImageConfig, ContentBlock } from '../types';
+import { processImageFile } from './imageUtils';
+
+// --- Column Mapping ---
+// Spreadsheet headers are matched by name (case-insensitive):
+//   文件名 / name                    output file name
+//   标题 / 主标题 / subTitle          title slogan
+//   营销文案 / marketingCopy          marketing copy
+//   头图 / header                    header image file name
+//   详情:<标签> / detail:<label>      one detail row with that label
+//   文本1, 文本2 / text1 ...          text blocks, in column order
+//   图片1, 图片2 / image1 ...         image blocks (file names), in column order
+
+export type BatchColumnKind = 'name' | 'subTitle' | 'marketingCopy' | 'header' | 'detail' | 'text' | 'image' | 'ignored';
+
+export interface BatchColumn {
+  index: number;
+  header: string;
+  kind: BatchColumnKind;
+  label?: string; // Detail label for 'detail' columns
+}
+
+const SIMPLE_COLUMNS: Record<string, BatchColumnKind> = {
+  '文件名': 'name',
+  'name': 'name',
+  '标题': 'subTitle',
+  '主标题': 'subTitle',
+  '描述文字': 'subTitle',
+  'subtitle': 'subTitle',
+  '营销文案': 'marketingCopy',
+  'marketingcopy': 'marketingCopy',
+  '头图': 'header',
+  'header': 'header',
+  'headerimage': 'header'
+};
+
+export const classifyColumns = (headers: string[]): BatchColumn[] =>
+  headers.map((header, index) => {
+    const key = header.trim().toLowerCase();
+    const detail = header.match(/^(?:详情|detail)\s*[:：]\s*(.+)$/i);
+    if (detail) return { index, header, kind: 'detail', label: detail[1].trim() };
+    if (SIMPLE_COLUMNS[key]) return { index, header, kind: SIMPLE_COLUMNS[key] };
+    if (/^(文本|text)\s*\d*$/i.test(key)) return { index, header, kind: 'text' };
+    if (/^(图片|image)\s*\d*$/i.test(key)) return { index, header, kind: 'image' };
+    return { index, header, kind: 'ignored' };
+  });
+
+// CSV template pre-filled with the current project's detail labels
+export const buildTemplateCsv = (data: PosterData): string => {
+  const headers = [
+    '文件名',
+    '标题',
+    ...data.details.map(d => `详情:${d.label}`),
+    '文本1',
+    '图片1',
+    '头图'
+  ];
+  const escape = (v: string) => /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  // BOM so Excel opens the UTF-8 file correctly
+  return '\uFEFF' + headers.map(escape).join(',') + '\n';
+};
+
+// --- Row -> Poster ---
+
+export interface BatchTemplate {
+  posterData: PosterData;
+  imageConfig: ImageConfig;
+}
+
+export interface BatchRowDocument {
+  name: string;
+  posterData: PosterData;
+  imageConfig: ImageConfig;
+  objectUrls: string[]; // Revoke once the row is rendered
+}
+
+// Index image files by bare file name, lower-cased
+export const indexImageFiles = (files: File[]): Map<string, File> => {
+  const map = new Map<string, File>();
+  files.forEach(file => {
+    if (file.type.startsWith('image/') || /\.(jpe?g|png|webp|gif)$/i.test(file.name)) {
+      map.set(file.name.toLowerCase(), file);
+    }
+  });
+  return map;
+};
+
+const textToHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+
+export const isBlankRow = (row: string[]) => row.every(cell => !cell);
+
+// Builds the poster for one row; throws with a readable reason if an image is missing.
+export const buildRowDocument = async (
+  columns: BatchColumn[],
+  row: string[],
+  rowIndex: number,
+  template: BatchTemplate,
+  images: Map<string, File>
+): Promise<BatchRowDocument> => {
+  const objectUrls: string[] = [];
+  const loadImage = async (fileName: string) => {
+    const file = images.get(fileName.trim().replace(/^.*[\\/]/, '').toLowerCase());
+    if (!file) throw new Error(`找不到图片“${fileName}”`);
+    const url = await processImageFile(file);
+    objectUrls.push(url);
+    return url;
+  };
+
+  try {
+    let name = '';
+    let imageConfig = template.imageConfig;
+    const posterData: PosterData = { ...template.posterData };
+    const details = [] as PosterData['details'];
+    const content: ContentBlock[] = [];
+
+    for (const column of columns) {
+      const value = row[column.index] || '';
+      if (!value && column.kind !== 'detail') continue;
+      const id = `batch-${rowIndex}-${column.index}`;
+
+      switch (column.kind) {
+        case 'name':
+          name = value;
+          break;
+        case 'subTitle':
+          posterData.subTitle = value;
+          break;
+        case 'marketingCopy':
+          posterData.marketingCopy = textToHtml(value);
+          break;
+        case 'header':
+          imageConfig = { url: await loadImage(value), x: 0, y: 0, scale: 1 };
+          break;
+        case 'detail':
+          if (value) details.push({ id, label: column.label || '', value: textToHtml(value) });
+          break;
+        case 'text':
+          content.push({ id, type: 'text', value: textToHtml(value) });
+          break;
+        case 'image':
+          content.push({ id, type: 'image', value: await loadImage(value), alt: value });
+          break;
+      }
+    }
+
+    // Columns that are absent keep the template's sections
+    if (columns.some(c => c.kind === 'detail')) posterData.details = details;
+    if (columns.some(c => c.kind === 'text' || c.kind === 'image')) posterData.content = content;
+
+    return { name, posterData, imageConfig, objectUrls };
+  } catch (error) {
+    objectUrls.forEach(url => URL.revokeObjectURL(url));
+    throw error;
+  }
+};
+
+// Characters not allowed in zip entry / file names
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\r\n]+/g, '_').trim().slice(0, 60);
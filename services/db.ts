@@ -0,0 +1,218 @@
+import { SavedRecord } from '../types';
+
+// --- IndexedDB Utilities (Replaces localStorage) ---
+// Stores:
+//   drafts  SavedRecord, images referenced as "asset:<sha256>"
+//   assets  image Blobs keyed by content hash, shared by all drafts
+//   meta    one-off flags such as completed data migrations
+//   session autosaved working state, separate from the named drafts
+//   snapshots  earlier versions of each draft, indexed by draftId
+const DB_NAME = 'PosterGeneratorDB';
+const DRAFTS_STORE = 'drafts';
+const ASSETS_STORE = 'assets';
+const META_STORE = 'meta';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+const SNAPSHOTS_STORE = 'snapshots';
+const DB_VERSION = 4;
+
+export interface StoredAsset {
+  hash: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+}
+
+export interface SessionEntry {
+  savedAt: number;
+  draftId: string | null; // Draft the session was editing, if any
+  draftName: string;
+  record: SavedRecord; // Images referenced as "asset:<sha256>"
+}
+
+export interface DraftSnapshot {
+  id: string;
+  draftId: string;
+  savedAt: number; // When this version was saved (the draft's timestamp at the time)
+  name: string;
+  thumbnail?: string;
+  record: SavedRecord;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const dbAPI = {
+  open: (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = (e) => {
+        const db = (e.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+          snapshots.createIndex('draftId', 'draftId', { unique: false });
+        }
+      };
+    });
+  },
+
+  add: async (record: SavedRecord): Promise<void> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(DRAFTS_STORE, 'readwrite').objectStore(DRAFTS_STORE);
+    await requestToPromise(store.put(record)); // put allows updating if id exists
+  },
+
+  get: async (id: string): Promise<SavedRecord | undefined> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE);
+    return requestToPromise(store.get(id)) as Promise<SavedRecord | undefined>;
+  },
+
+  getAll: async (): Promise<SavedRecord[]> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE);
+    const records = await requestToPromise(store.getAll()) as SavedRecord[];
+    // Sort by timestamp descending (newest first)
+    records.sort((a, b) => b.timestamp - a.timestamp);
+    return records;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(DRAFTS_STORE, 'readwrite').objectStore(DRAFTS_STORE);
+    await requestToPromise(store.delete(id));
+  },
+
+  // --- Assets ---
+
+  // Writes only the hashes that are not stored yet
+  putAssets: async (assets: StoredAsset[]): Promise<void> => {
+    if (!assets.length) return;
+    const db = await dbAPI.open();
+    const transaction = db.transaction(ASSETS_STORE, 'readwrite');
+    const store = transaction.objectStore(ASSETS_STORE);
+    assets.forEach(asset => {
+      const check = store.getKey(asset.hash);
+      check.onsuccess = () => {
+        if (check.result === undefined) store.put(asset);
+      };
+    });
+    await transactionDone(transaction);
+  },
+
+  getAsset: async (hash: string): Promise<StoredAsset | undefined> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE);
+    return requestToPromise(store.get(hash)) as Promise<StoredAsset | undefined>;
+  },
+
+  getAssetHashes: async (): Promise<string[]> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE);
+    return (await requestToPromise(store.getAllKeys())) as string[];
+  },
+
+  getAllAssets: async (): Promise<StoredAsset[]> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE);
+    return requestToPromise(store.getAll()) as Promise<StoredAsset[]>;
+  },
+
+  deleteAssets: async (hashes: string[]): Promise<void> => {
+    if (!hashes.length) return;
+    const db = await dbAPI.open();
+    const transaction = db.transaction(ASSETS_STORE, 'readwrite');
+    const store = transaction.objectStore(ASSETS_STORE);
+    hashes.forEach(hash => store.delete(hash));
+    await transactionDone(transaction);
+  },
+
+  // --- Meta ---
+
+  getMeta: async <T>(key: string): Promise<T | undefined> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    const entry = await requestToPromise(store.get(key)) as { key: string; value: T } | undefined;
+    return entry?.value;
+  },
+
+  setMeta: async <T>(key: string, value: T): Promise<void> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(META_STORE, 'readwrite').objectStore(META_STORE);
+    await requestToPromise(store.put({ key, value }));
+  },
+
+  // --- Session ---
+
+  getSession: async (): Promise<SessionEntry | undefined> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+    const entry = await requestToPromise(store.get(SESSION_KEY)) as (SessionEntry & { key: string }) | undefined;
+    if (!entry) return undefined;
+    const { key, ...session } = entry;
+    return session;
+  },
+
+  putSession: async (session: SessionEntry): Promise<void> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE);
+    await requestToPromise(store.put({ key: SESSION_KEY, ...session }));
+  },
+
+  clearSession: async (): Promise<void> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE);
+    await requestToPromise(store.delete(SESSION_KEY));
+  },
+
+  // --- Snapshots ---
+
+  addSnapshot: async (snapshot: DraftSnapshot): Promise<void> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(SNAPSHOTS_STORE, 'readwrite').objectStore(SNAPSHOTS_STORE);
+    await requestToPromise(store.put(snapshot));
+  },
+
+  // Newest first; all drafts when draftId is omitted
+  getSnapshots: async (draftId?: string): Promise<DraftSnapshot[]> => {
+    const db = await dbAPI.open();
+    const store = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+    const request = draftId === undefined ? store.getAll() : store.index('draftId').getAll(draftId);
+    const snapshots = await requestToPromise(request) as DraftSnapshot[];
+    snapshots.sort((a, b) => b.savedAt - a.savedAt);
+    return snapshots;
+  },
+
+  deleteSnapshots: async (ids: string[]): Promise<void> => {
+    if (!ids.length) return;
+    const db = await dbAPI.open();
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+};
@@ -0,0 +1,170 @@
+import { SavedRecord } from '../types';
+import { dbAPI, StoredAsset } from './db';
+import { fetchImageBlob } from './imageUtils';
+import { mapRecordImages } from './projectFormat';
+import { hashBlob, isAssetRef, ASSET_REF_PREFIX } from './projectBundle';
+
+// --- Draft Images ---
+// Drafts keep "asset:<sha256>" references; the Blobs live once in the assets
+// store no matter how many drafts or saves use them.
+
+// Asset writes and garbage collection run one at a time. A task that stores
+// assets has to write the record referencing them before it finishes;
+// otherwise a collection in between sees the new assets as unused and
+// deletes them. Tasks must not call collectGarbageAssets (it waits for the lock).
+let assetQueue: Promise<unknown> = Promise.resolve();
+
+export const withAssetLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = assetQueue.then(task, task);
+  assetQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Blob URLs handed out this session, so reopening a draft reuses them
+const resolvedUrls = new Map<string, string>();
+// Blob URLs are immutable, so a stored one never needs hashing again (keeps autosave cheap)
+const storedRefs = new Map<string, string>();
+
+// Moves every image of a record into the assets store and returns the
+// record with references. URLs that cannot be read are kept as they are.
+// Call inside withAssetLock, together with writing the returned record.
+export const storeRecordImages = async (record: SavedRecord): Promise<SavedRecord> => {
+  const pending = new Map<string, StoredAsset>();
+  const refs = new Map<string, string>();
+
+  const withRefs = await mapRecordImages(record, async (url) => {
+    if (isAssetRef(url)) return url;
+    const cached = refs.get(url) || storedRefs.get(url);
+    if (cached) return cached;
+
+    try {
+      const blob = await fetchImageBlob(url);
+      const hash = await hashBlob(blob);
+      pending.set(hash, { hash, blob, size: blob.size, createdAt: Date.now() });
+      if (url.startsWith('blob:')) resolvedUrls.set(hash, url);
+      const ref = `${ASSET_REF_PREFIX}${hash}`;
+      refs.set(url, ref);
+      return ref;
+    } catch (e) {
+      console.error("Image could not be stored", e);
+      return url;
+    }
+  });
+
+  await dbAPI.putAssets(Array.from(pending.values()));
+  refs.forEach((ref, url) => {
+    if (url.startsWith('blob:')) storedRefs.set(url, ref);
+  });
+  return withRefs;
+};
+
+// Turns asset references back into blob URLs for editing
+export const resolveRecordImages = async (record: SavedRecord): Promise<SavedRecord> => {
+  return mapRecordImages(record, async (url) => {
+    if (!isAssetRef(url)) return url;
+    const hash = url.slice(ASSET_REF_PREFIX.length);
+    const cached = resolvedUrls.get(hash);
+    if (cached) return cached;
+
+    const asset = await dbAPI.getAsset(hash);
+    if (!asset) {
+      console.warn(`Asset ${hash} is missing`);
+      return '';
+    }
+    const blobUrl = URL.createObjectURL(asset.blob);
+    resolvedUrls.set(hash, blobUrl);
+    storedRefs.set(blobUrl, url);
+    return blobUrl;
+  });
+};
+
+export const collectAssetRefs = async (record: SavedRecord, into: Set<string> = new Set()): Promise<Set<string>> => {
+  await mapRecordImages(record, async (url) => {
+    if (isAssetRef(url)) into.add(url.slice(ASSET_REF_PREFIX.length));
+    return url;
+  });
+  return into;
+};
+
+// Deletes assets no draft, snapshot or autosaved session refers to any more;
+// returns how many were removed
+export const collectGarbageAssets = (): Promise<number> => withAssetLock(async () => {
+  const referenced = new Set<string>();
+  for (const record of await dbAPI.getAll()) {
+    await collectAssetRefs(record, referenced);
+  }
+  for (const snapshot of await dbAPI.getSnapshots()) {
+    await collectAssetRefs(snapshot.record, referenced);
+  }
+  const session = await dbAPI.getSession();
+  if (session) await collectAssetRefs(session.record, referenced);
+
+  const orphaned = new Set((await dbAPI.getAssetHashes()).filter(hash => !referenced.has(hash)));
+  await dbAPI.deleteAssets(Array.from(orphaned));
+  // The open document may still show these URLs, so they are not revoked
+  orphaned.forEach(hash => resolvedUrls.delete(hash));
+  storedRefs.forEach((ref, url) => {
+    if (orphaned.has(ref.slice(ASSET_REF_PREFIX.length))) storedRefs.delete(url);
+  });
+  return orphaned.size;
+});
+
+// Points drafts, snapshots and the autosaved session at replacement assets
+// (e.g. recompressed images). The replaced assets become garbage.
+// Call inside withAssetLock, after storing the replacements.
+export const remapAssets = async (mapping: Map<string, string>): Promise<void> => {
+  if (!mapping.size) return;
+  const remap = (record: SavedRecord) => mapRecordImages(record, async (url) => {
+    const next = isAssetRef(url) && mapping.get(url.slice(ASSET_REF_PREFIX.length));
+    return next ? `${ASSET_REF_PREFIX}${next}` : url;
+  });
+  const uses = async (record: SavedRecord) =>
+    Array.from(await collectAssetRefs(record)).some(hash => mapping.has(hash));
+
+  for (const record of await dbAPI.getAll()) {
+    try {
+      if (await uses(record)) await dbAPI.add(await remap(record));
+    } catch (e) {
+      console.warn(`Draft "${record.name}" could not be updated`, e);
+    }
+  }
+  for (const snapshot of await dbAPI.getSnapshots()) {
+    try {
+      if (await uses(snapshot.record)) await dbAPI.addSnapshot({ ...snapshot, record: await remap(snapshot.record) });
+    } catch (e) {
+      console.warn(`Snapshot ${snapshot.id} could not be updated`, e);
+    }
+  }
+  const session = await dbAPI.getSession();
+  if (session && await uses(session.record)) {
+    await dbAPI.putSession({ ...session, record: await remap(session.record) });
+  }
+
+  // Images open in the editor save as the replacement from now on
+  storedRefs.forEach((ref, url) => {
+    const next = mapping.get(ref.slice(ASSET_REF_PREFIX.length));
+    if (next) storedRefs.set(url, `${ASSET_REF_PREFIX}${next}`);
+  });
+  mapping.forEach((_, hash) => resolvedUrls.delete(hash));
+};
+
+// --- One-time Migration ---
+// Drafts saved before the assets store inline every image as base64.
+
+const INLINE_MIGRATION_KEY = 'inlineImagesMigrated';
+
+export const migrateInlineDraftImages = async (): Promise<boolean> => {
+  if (await dbAPI.getMeta<boolean>(INLINE_MIGRATION_KEY)) return false;
+
+  for (const record of await dbAPI.getAll()) {
+    try {
+      await withAssetLock(async () => dbAPI.add(await storeRecordImages(record)));
+    } catch (e) {
+      // Malformed drafts keep their inline images
+      console.warn(`Draft "${record.name}" images could not be migrated`, e);
+    }
+  }
+  await dbAPI.setMeta(INLINE_MIGRATION_KEY, true);
+  await collectGarbageAssets();
+  return true;
+};
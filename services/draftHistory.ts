@@ -0,0 +1,55 @@
+import { SavedRecord } from '../types';
+import { dbAPI, DraftSnapshot } from './db';
+
+// --- Draft Version History ---
+// Overwriting a draft first copies the stored version into the snapshots
+// store. Snapshots keep asset references, so old versions cost almost nothing
+// unless their images differ.
+
+const SNAPSHOT_LIMIT_KEY = 'snapshotLimit';
+export const DEFAULT_SNAPSHOT_LIMIT = 20;
+
+export const getSnapshotLimit = async (): Promise<number> =>
+  (await dbAPI.getMeta<number>(SNAPSHOT_LIMIT_KEY)) ?? DEFAULT_SNAPSHOT_LIMIT;
+
+// Drops the oldest snapshots of a draft beyond the limit
+const pruneSnapshots = async (draftId: string, limit: number) => {
+  const snapshots = await dbAPI.getSnapshots(draftId);
+  await dbAPI.deleteSnapshots(snapshots.slice(limit).map(s => s.id));
+};
+
+// Applies the current limit to one draft, e.g. after its history was imported
+export const pruneDraftSnapshots = async (draftId: string): Promise<void> =>
+  pruneSnapshots(draftId, await getSnapshotLimit());
+
+// Applies a new limit to every draft right away
+export const updateSnapshotLimit = async (limit: number): Promise<void> => {
+  await dbAPI.setMeta(SNAPSHOT_LIMIT_KEY, limit);
+  const draftIds = new Set((await dbAPI.getSnapshots()).map(s => s.draftId));
+  for (const draftId of draftIds) {
+    await pruneSnapshots(draftId, limit);
+  }
+};
+
+// Keeps the stored version of a draft before it is overwritten
+export const snapshotDraft = async (previous: SavedRecord): Promise<void> => {
+  const limit = await getSnapshotLimit();
+  if (limit <= 0) return;
+
+  await dbAPI.addSnapshot({
+    id: `${previous.id}-${previous.timestamp}`,
+    draftId: previous.id,
+    savedAt: previous.timestamp,
+    name: previous.name,
+    thumbnail: previous.thumbnail,
+    record: previous
+  });
+  await pruneSnapshots(previous.id, limit);
+};
+
+export const getDraftSnapshots = (draftId: string): Promise<DraftSnapshot[]> => dbAPI.getSnapshots(draftId);
+
+export const deleteDraftSnapshots = async (draftId: string): Promise<void> => {
+  const snapshots = await dbAPI.getSnapshots(draftId);
+  await dbAPI.deleteSnapshots(snapshots.map(s => s.id));
+};
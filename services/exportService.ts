@@ -0,0 +1,350 @@
+import * as htmlToImage from 'html-to-image';
+import { ExportFormat } from '../types';
+import { EXPORT_FORMATS, EXPORT_QUALITY_RANGE, MIN_SLICE_HEIGHT } from './exportSettings';
+
+// Width of the PosterPreview canvas in CSS pixels; export pixel ratios are relative to it
+export const POSTER_WIDTH = 375;
+
+// Exclude elements that shouldn't be in the final export (like UI helpers)
+export const exportFilter = (domNode: HTMLElement) =>
+  !(domNode instanceof HTMLElement && domNode.classList.contains('no-export'));
+
+// --- Canvas Limits ---
+// @see https://developer.mozilla.org/en-US/docs/Web/HTML/Element/canvas#maximum_canvas_size
+// Values are conservative per engine; exceeding them yields a blank canvas or an exception.
+
+export interface CanvasLimits {
+  maxDimension: number;
+  maxArea: number;
+}
+
+const detectCanvasLimits = (): CanvasLimits => {
+  const ua = navigator.userAgent;
+  const isSafari = /^((?!chrome|android|crios|fxios).)*safari/i.test(ua) || /iphone|ipad/i.test(ua);
+  if (isSafari) return { maxDimension: 16384, maxArea: 16777216 };
+  if (/firefox/i.test(ua)) return { maxDimension: 32767, maxArea: 124992400 };
+  return { maxDimension: 32767, maxArea: 268435456 };
+};
+
+export const CANVAS_LIMITS = detectCanvasLimits();
+
+// Tiles are kept well below the limits to bound memory per render pass
+const MAX_TILE_HEIGHT = 4096;
+
+export const fitsCanvasLimits = (width: number, height: number, limits: CanvasLimits = CANVAS_LIMITS) =>
+  width <= limits.maxDimension && height <= limits.maxDimension && width * height <= limits.maxArea;
+
+// Tallest canvas (in output pixels) the browser can allocate at this width
+export const maxCanvasHeightFor = (width: number, limits: CanvasLimits = CANVAS_LIMITS) =>
+  Math.max(1, Math.min(limits.maxDimension, Math.floor(limits.maxArea / Math.max(1, width))));
+
+// --- Poster Rendering ---
+
+export interface RenderOptions {
+  pixelRatio: number;
+  backgroundColor: string;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('导出已取消', 'AbortError');
+};
+
+// A poster rendered lazily in vertical tiles. Regions can be requested in
+// top-to-bottom order; tiles above a released offset are dropped to free memory.
+export interface PosterRaster {
+  cssWidth: number;
+  cssHeight: number;
+  pixelWidth: number;
+  pixelsPerCss: number;
+  getRegion: (start: number, end: number) => Promise<HTMLCanvasElement>;
+  release: (before: number) => void;
+}
+
+export const createTiledRaster = async (node: HTMLElement, options: RenderOptions): Promise<PosterRaster> => {
+  // Sometimes a first empty pass or delay helps with webfont loading in canvas
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  const cssWidth = node.offsetWidth;
+  const cssHeight = node.offsetHeight;
+  const ratio = options.pixelRatio;
+  const pixelWidth = Math.round(cssWidth * ratio);
+  const tileCss = Math.max(1, Math.floor(Math.min(MAX_TILE_HEIGHT, maxCanvasHeightFor(pixelWidth)) / ratio));
+  const totalTiles = Math.ceil(cssHeight / tileCss);
+
+  const tiles = new Map<number, HTMLCanvasElement>();
+  let rendered = 0;
+
+  const renderTile = async (index: number): Promise<HTMLCanvasElement> => {
+    const cached = tiles.get(index);
+    if (cached) return cached;
+    throwIfAborted(options.signal);
+
+    const offset = index * tileCss;
+    const height = Math.min(tileCss, cssHeight - offset);
+    // The snapshot viewport is one tile tall; the clone keeps its full height
+    // and is shifted up so only this tile's strip is rasterized.
+    const canvas = await htmlToImage.toCanvas(node, {
+      pixelRatio: ratio,
+      // cacheBust: true, // Removed as it breaks Blob URLs
+      skipAutoScale: true,
+      backgroundColor: options.backgroundColor, // Match background to prevent transparent artifacts
+      filter: exportFilter,
+      width: cssWidth,
+      height,
+      style: {
+        height: `${cssHeight}px`,
+        transform: `translateY(-${offset}px)`,
+        transformOrigin: 'top left'
+      }
+    });
+
+    throwIfAborted(options.signal);
+    tiles.set(index, canvas);
+    rendered++;
+    options.onProgress?.(rendered, totalTiles);
+    return canvas;
+  };
+
+  const getRegion = async (start: number, end: number) => {
+    const top = Math.round(start * ratio);
+    const bottom = Math.min(Math.round(cssHeight * ratio), Math.round(end * ratio));
+    const region = document.createElement('canvas');
+    region.width = pixelWidth;
+    region.height = Math.max(1, bottom - top);
+    const ctx = region.getContext('2d');
+    if (!ctx) throw new Error('Canvas context failed');
+
+    const tilePx = tileCss * ratio;
+    for (let index = Math.floor(start / tileCss); index < totalTiles && index * tileCss < end; index++) {
+      const tile = await renderTile(index);
+      const tileTop = Math.round(index * tilePx);
+      const srcY = Math.max(0, top - tileTop);
+      const destY = Math.max(0, tileTop - top);
+      const h = Math.min(tile.height - srcY, region.height - destY);
+      if (h > 0) ctx.drawImage(tile, 0, srcY, tile.width, h, 0, destY, region.width, h);
+    }
+    return region;
+  };
+
+  const release = (before: number) => {
+    tiles.forEach((tile, index) => {
+      if ((index + 1) * tileCss <= before) {
+        tile.width = 0; // Free the backing store eagerly
+        tiles.delete(index);
+      }
+    });
+  };
+
+  return { cssWidth, cssHeight, pixelWidth, pixelsPerCss: ratio, getRegion, release };
+};
+
+// Small JPEG of the poster's top area for draft lists and version history
+export const renderThumbnail = async (node: HTMLElement, backgroundColor: string, width: number = 120): Promise<string> => {
+  const raster = await createTiledRaster(node, { pixelRatio: width / node.offsetWidth, backgroundColor });
+  const canvas = await raster.getRegion(0, Math.min(raster.cssHeight, node.offsetWidth * 4 / 3));
+  raster.release(raster.cssHeight);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Canvas blob failed'));
+    }, type, quality);
+  });
+};
+
+// --- Encoding ---
+
+// Lowest quality the size search is allowed to reach
+const MIN_QUALITY = EXPORT_QUALITY_RANGE.min;
+const QUALITY_STEP = 0.05;
+
+export interface EncodeOptions {
+  format: ExportFormat;
+  quality: number;
+  maxBytes: number; // 0 = no limit
+}
+
+export interface EncodeResult {
+  blob: Blob;
+  quality: number;
+  fits: boolean; // Whether the size limit was met
+}
+
+// Encodes a canvas; with a size limit on a lossy format, lowers the quality
+// step by step until the file fits or MIN_QUALITY is reached.
+export const encodeCanvas = async (canvas: HTMLCanvasElement, options: EncodeOptions): Promise<EncodeResult> => {
+  const { mime, lossy } = EXPORT_FORMATS[options.format];
+
+  if (!lossy) {
+    const blob = await canvasToBlob(canvas, mime);
+    return { blob, quality: 1, fits: !options.maxBytes || blob.size <= options.maxBytes };
+  }
+
+  let quality = options.quality;
+  let blob = await canvasToBlob(canvas, mime, quality);
+
+  while (options.maxBytes > 0 && blob.size > options.maxBytes && quality - QUALITY_STEP >= MIN_QUALITY - 0.001) {
+    quality = Math.round((quality - QUALITY_STEP) * 100) / 100;
+    blob = await canvasToBlob(canvas, mime, quality);
+  }
+
+  return { blob, quality, fits: !options.maxBytes || blob.size <= options.maxBytes };
+};
+
+// Browsers without an encoder (e.g. WebP on older Safari) silently fall back to PNG
+export const extensionForBlob = (blob: Blob, format: ExportFormat) => {
+  const match = Object.values(EXPORT_FORMATS).find(f => f.mime === blob.type);
+  return match ? match.extension : EXPORT_FORMATS[format].extension;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// --- Slice Planning ---
+// PosterPreview marks its DOM so cuts can be placed safely:
+//   data-slice-boundary  whole sections / content blocks; cutting at their edges is preferred
+//   data-slice-atomic    elements that must never be split (images, the header)
+// Every rendered line of text is also treated as atomic.
+
+export interface CutLayout {
+  height: number; // CSS px
+  preferred: number[]; // Section / block edges
+  fallback: number[]; // Ends of text lines and images
+  forbidden: [number, number][]; // Intervals a cut must not fall inside
+}
+
+export const measureCutLayout = (node: HTMLElement): CutLayout => {
+  const rootRect = node.getBoundingClientRect();
+  // Account for any CSS transform scale applied to the poster
+  const factor = node.offsetHeight ? rootRect.height / node.offsetHeight : 1;
+  const toLocal = (y: number) => (y - rootRect.top) / factor;
+
+  const forbidden: [number, number][] = [];
+  const fallback: number[] = [];
+  const preferred: number[] = [];
+
+  node.querySelectorAll<HTMLElement>('[data-slice-atomic]').forEach(el => {
+    const rect = el.getBoundingClientRect();
+    forbidden.push([toLocal(rect.top), toLocal(rect.bottom)]);
+    fallback.push(toLocal(rect.top), toLocal(rect.bottom));
+  });
+
+  // Text line boxes
+  const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  while (walker.nextNode()) {
+    const textNode = walker.currentNode as Text;
+    if (!textNode.data.trim()) continue;
+    if (textNode.parentElement?.closest('.no-export, [data-slice-atomic]')) continue;
+    range.selectNodeContents(textNode);
+    Array.from(range.getClientRects()).forEach(rect => {
+      if (rect.height === 0) return;
+      forbidden.push([toLocal(rect.top), toLocal(rect.bottom)]);
+      fallback.push(toLocal(rect.bottom));
+    });
+  }
+  range.detach();
+
+  node.querySelectorAll<HTMLElement>('[data-slice-boundary]').forEach(el => {
+    const rect = el.getBoundingClientRect();
+    preferred.push(toLocal(rect.top), toLocal(rect.bottom));
+  });
+
+  const isFree = (y: number) => !forbidden.some(([a, b]) => y > a + 0.5 && y < b - 0.5);
+  const height = node.offsetHeight;
+  const clean = (values: number[]) =>
+    Array.from(new Set(values.map(v => Math.round(v))))
+      .filter(v => v > 0 && v < height && isFree(v))
+      .sort((a, b) => a - b);
+
+  return { height, preferred: clean(preferred), fallback: clean(fallback), forbidden };
+};
+
+// Pick the lowest-risk cut in (start, limit]: a block edge if one is reasonably far down,
+// otherwise the end of a text line or image, otherwise a hard cut at the limit.
+export const pickCut = (layout: CutLayout, start: number, limit: number): number => {
+  if (limit >= layout.height) return layout.height;
+
+  const minSpan = (limit - start) * 0.3;
+  const lastWithin = (values: number[], min: number) => {
+    let found = -1;
+    for (const v of values) {
+      if (v > min && v <= limit) found = v;
+    }
+    return found;
+  };
+
+  const preferred = lastWithin(layout.preferred, start + minSpan);
+  if (preferred > 0) return preferred;
+
+  const fallback = lastWithin(layout.fallback, start);
+  if (fallback > 0) return fallback;
+
+  return limit;
+};
+
+export interface SliceOptions {
+  maxHeight: number; // Output pixels, 0 = unlimited
+  maxBytes: number; // 0 = unlimited
+}
+
+// Cuts a tiled poster raster into encoded slices.
+// `encode` turns one slice canvas into a file so size limits can be checked.
+export const slicePosterRaster = async (
+  raster: PosterRaster,
+  layout: CutLayout,
+  options: SliceOptions,
+  encode: (slice: HTMLCanvasElement) => Promise<Blob>,
+  signal?: AbortSignal
+): Promise<Blob[]> => {
+  // A slice can never be taller than the browser can allocate, nor shorter than MIN_SLICE_HEIGHT
+  const limitPx = maxCanvasHeightFor(raster.pixelWidth);
+  const minPx = Math.min(MIN_SLICE_HEIGHT, limitPx);
+  const maxPx = options.maxHeight > 0 ? Math.min(Math.max(options.maxHeight, minPx), limitPx) : limitPx;
+  const minCss = minPx / raster.pixelsPerCss;
+  const maxCss = maxPx / raster.pixelsPerCss;
+
+  const cropToBlob = async (start: number, end: number) => {
+    const slice = await raster.getRegion(start, end);
+    throwIfAborted(signal);
+    const blob = await encode(slice);
+    slice.width = 0;
+    return blob;
+  };
+
+  const blobs: Blob[] = [];
+  let start = 0;
+
+  while (start < layout.height - 0.5) {
+    let end = pickCut(layout, start, Math.min(layout.height, start + maxCss));
+    let blob = await cropToBlob(start, end);
+
+    // Shrink the slice until it fits the file size limit (or would drop below the minimum height)
+    while (options.maxBytes > 0 && blob.size > options.maxBytes) {
+      const ratio = Math.max(0.5, (options.maxBytes / blob.size) * 0.95);
+      const smaller = pickCut(layout, start, start + (end - start) * ratio);
+      if (smaller < start + minCss || smaller >= end) break;
+      end = smaller;
+      blob = await cropToBlob(start, end);
+    }
+
+    blobs.push(blob);
+    raster.release(end);
+    start = end;
+  }
+
+  return blobs;
+};
@@ -0,0 +1,66 @@
+import { ExportFormat, ExportMode, ExportSettings } from '../types';
+
+// --- Export Settings ---
+// Formats, defaults and the ranges the settings modal allows. Project files
+// are validated against the same ranges, so a hand-edited or foreign file can
+// never put the exporter into a state the modal could not produce.
+
+export const EXPORT_FORMATS: Record<ExportFormat, { mime: string; extension: string; label: string; lossy: boolean }> = {
+  png: { mime: 'image/png', extension: 'png', label: 'PNG', lossy: false },
+  jpeg: { mime: 'image/jpeg', extension: 'jpg', label: 'JPEG', lossy: true },
+  webp: { mime: 'image/webp', extension: 'webp', label: 'WebP', lossy: true }
+};
+
+export const EXPORT_MODES: ExportMode[] = ['single', 'sliced'];
+
+export const EXPORT_WIDTH_RANGE = { min: 200, max: 3000 };
+export const EXPORT_QUALITY_RANGE = { min: 0.3, max: 1 };
+// Shortest slice height limit in output px; lower limits would plan hundreds of slivers
+export const MIN_SLICE_HEIGHT = 400;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  mode: 'single',
+  format: 'png',
+  width: 1125, // pixelRatio 3, the original export resolution
+  quality: 0.92,
+  maxFileKB: 0,
+  sliceMaxHeight: 1500
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = (value: unknown, options: readonly unknown[]) => options.includes(value);
+
+// Per field: whether a stored value is usable, and the message when it is not
+export const EXPORT_SETTING_CHECKS: Record<keyof ExportSettings, { valid: (value: unknown) => boolean; expected: string }> = {
+  mode: {
+    valid: value => isOneOf(value, EXPORT_MODES),
+    expected: `应为 ${EXPORT_MODES.join(' / ')} 之一`
+  },
+  format: {
+    valid: value => isOneOf(value, Object.keys(EXPORT_FORMATS)),
+    expected: `应为 ${Object.keys(EXPORT_FORMATS).join(' / ')} 之一`
+  },
+  width: {
+    valid: value => isFiniteNumber(value) && value >= EXPORT_WIDTH_RANGE.min && value <= EXPORT_WIDTH_RANGE.max,
+    expected: `应为 ${EXPORT_WIDTH_RANGE.min} - ${EXPORT_WIDTH_RANGE.max} 之间的数字`
+  },
+  quality: {
+    valid: value => isFiniteNumber(value) && value >= EXPORT_QUALITY_RANGE.min && value <= EXPORT_QUALITY_RANGE.max,
+    expected: `应为 ${EXPORT_QUALITY_RANGE.min} - ${EXPORT_QUALITY_RANGE.max} 之间的数字`
+  },
+  maxFileKB: {
+    valid: value => isFiniteNumber(value) && value >= 0,
+    expected: '应为不小于 0 的数字'
+  },
+  sliceMaxHeight: {
+    valid: value => value === 0 || (isFiniteNumber(value) && value >= MIN_SLICE_HEIGHT),
+    expected: `应为 0（不限）或不小于 ${MIN_SLICE_HEIGHT} 的数字`
+  }
+};
+
+// The usable fields of stored settings; unknown or invalid ones are left out,
+// so the defaults apply to them when the project is opened
+export const keepValidExportSettings = (stored: Record<string, unknown>): Partial<ExportSettings> =>
+  Object.fromEntries(Object.entries(stored).filter(([key, value]) =>
+    Object.prototype.hasOwnProperty.call(EXPORT_SETTING_CHECKS, key) && EXPORT_SETTING_CHECKS[key as keyof ExportSettings].valid(value)
+  ));
@@ -0,0 +1,128 @@
+import { SavedRecord } from '../types';
+import type { StorageProvider } from './storageProvider';
+import { buildProjectBundle, importProjectFile, peekProjectFile, updateProjectFile, BUNDLE_EXTENSION } from './projectBundle';
+import { safeFileName } from './batchService';
+
+// --- Local Folder Storage (File System Access API) ---
+// Each draft is one .xqproj bundle in a folder the user picked, so a synced or
+// shared folder works as a team library. Saving a draft that came from a file
+// overwrites that same file; new drafts get a file named after the draft.
+// Legacy .json projects are read as they are, and replaced by a bundle once
+// saved, so a file's extension always matches its content.
+
+// Parts of the File System Access API missing from TypeScript's DOM lib
+type PermissionMode = { mode: 'read' | 'readwrite' };
+
+export interface FolderHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemHandle>;
+  queryPermission(options: PermissionMode): Promise<PermissionState>;
+  requestPermission(options: PermissionMode): Promise<PermissionState>;
+}
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export const isFolderStorageSupported = typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+const PROJECT_FILE_PATTERN = new RegExp(`\\.(${BUNDLE_EXTENSION}|json)$`, 'i');
+
+export const ensureFolderPermission = async (folder: FolderHandle) => {
+  const mode: PermissionMode = { mode: 'readwrite' };
+  if ((await folder.queryPermission(mode)) === 'granted') return;
+  if ((await folder.requestPermission(mode)) !== 'granted') {
+    throw new Error(`没有读写文件夹“${folder.name}”的权限`);
+  }
+};
+
+const writeFile = async (folder: FolderHandle, fileName: string, blob: Blob) => {
+  const handle = await folder.getFileHandle(fileName, { create: true });
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(blob);
+  } finally {
+    await writable.close();
+  }
+};
+
+export const createFolderProvider = (folder: FolderHandle): StorageProvider => {
+  // Draft id -> file name, rebuilt by every list()
+  const files = new Map<string, string>();
+
+  const fileFor = (id: string) => {
+    const fileName = files.get(id);
+    if (!fileName) throw new Error('文件夹中找不到该草稿，请刷新草稿库');
+    return fileName;
+  };
+
+  // A free "<name>.xqproj" for a draft that has no file yet
+  const newFileName = async (record: SavedRecord) => {
+    const base = safeFileName(record.name) || record.id;
+    const taken = new Set<string>();
+    for await (const entry of folder.values()) taken.add(entry.name.toLowerCase());
+    let fileName = `${base}.${BUNDLE_EXTENSION}`;
+    for (let i = 2; taken.has(fileName.toLowerCase()); i++) fileName = `${base} (${i}).${BUNDLE_EXTENSION}`;
+    return fileName;
+  };
+
+  return {
+    kind: 'folder',
+    label: folder.name,
+    supportsHistory: false,
+
+    list: async () => {
+      await ensureFolderPermission(folder);
+      files.clear();
+      const records: SavedRecord[] = [];
+      for await (const entry of folder.values()) {
+        if (entry.kind !== 'file' || !PROJECT_FILE_PATTERN.test(entry.name)) continue;
+        try {
+          const file = await (entry as FileSystemFileHandle).getFile();
+          let record = await peekProjectFile(file);
+          // Copied project files share an id; the copy is listed under its file name
+          if (files.has(record.id)) record = { ...record, id: `${record.id}@${entry.name}` };
+          files.set(record.id, entry.name);
+          records.push(record);
+        } catch (e) {
+          console.warn(`Skipped "${entry.name}": not a readable project file`, e);
+        }
+      }
+      return records.sort((a, b) => b.timestamp - a.timestamp);
+    },
+
+    load: async (id) => {
+      await ensureFolderPermission(folder);
+      const handle = await folder.getFileHandle(fileFor(id));
+      const record = await importProjectFile(await handle.getFile());
+      return { ...record, id };
+    },
+
+    save: async (record) => {
+      await ensureFolderPermission(folder);
+      const current = files.get(record.id);
+      const isBundle = current?.toLowerCase().endsWith(`.${BUNDLE_EXTENSION}`);
+      const fileName = current && isBundle ? current : await newFileName(record);
+      await writeFile(folder, fileName, await buildProjectBundle(record));
+      if (current && !isBundle) await folder.removeEntry(current);
+      files.set(record.id, fileName);
+      return record;
+    },
+
+    updateMeta: async (id, meta) => {
+      await ensureFolderPermission(folder);
+      const fileName = fileFor(id);
+      const file = await (await folder.getFileHandle(fileName)).getFile();
+      await writeFile(folder, fileName, await updateProjectFile(file, record => ({ ...record, ...meta })));
+    },
+
+    delete: async (ids) => {
+      await ensureFolderPermission(folder);
+      for (const id of ids) {
+        await folder.removeEntry(fileFor(id));
+        files.delete(id);
+      }
+    }
+  };
+};
@@ -0,0 +1,48 @@
+import { GalleryData, GalleryImage } from '../types';
+
+// --- Gallery Blocks ---
+// Pure helpers for the gallery content block: a grid of images sharing one
+// aspect ratio. Each image keeps a HeaderImage-style crop, recorded in
+// CropModal on a PREVIEW_SIZE wide viewport of the gallery's aspect ratio.
+
+export const MAX_GALLERY_IMAGES = 24;
+
+export const GALLERY_COLUMNS: GalleryData['columns'][] = [2, 3, 4];
+
+export const GALLERY_ASPECT_RATIOS: [number, string][] = [
+  [1, '1:1'],
+  [4 / 3, '4:3'],
+  [3 / 4, '3:4'],
+  [16 / 9, '16:9']
+];
+
+export const createGallery = (): GalleryData => ({
+  images: [],
+  columns: 2,
+  gap: 8,
+  aspectRatio: 1,
+  radius: 8
+});
+
+// Appends images; anything past MAX_GALLERY_IMAGES is dropped
+export const addGalleryImages = (gallery: GalleryData, images: GalleryImage[]): GalleryData => ({
+  ...gallery,
+  images: [...gallery.images, ...images].slice(0, Math.max(MAX_GALLERY_IMAGES, gallery.images.length))
+});
+
+export const updateGalleryImage = (gallery: GalleryData, id: string, update: Partial<GalleryImage>): GalleryData => ({
+  ...gallery,
+  images: gallery.images.map(image => (image.id === id ? { ...image, ...update } : image))
+});
+
+export const removeGalleryImage = (gallery: GalleryData, id: string): GalleryData => ({
+  ...gallery,
+  images: gallery.images.filter(image => image.id !== id)
+});
+
+export const moveGalleryImage = (gallery: GalleryData, from: number, to: number): GalleryData => {
+  const images = [...gallery.images];
+  const [moved] = images.splice(from, 1);
+  images.splice(to, 0, moved);
+  return { ...gallery, images };
+};
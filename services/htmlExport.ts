@@ -0,0 +1,126 @@
+import { blobToDataUrl, fetchImageBlob, extensionForMime } from './imageUtils';
+
+// How images end up in the exported page
+//   embedded  one .html file with data: URLs
+//   sidecar   index.html + images/ folder (delivered as a Zip)
+export type HtmlImageMode = 'embedded' | 'sidecar';
+
+export interface HtmlExportOptions {
+  title: string;
+  backgroundColor: string;
+  imageMode: HtmlImageMode;
+}
+
+export interface HtmlExportResult {
+  html: string;
+  assets: { path: string; blob: Blob }[]; // Only filled in sidecar mode
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Strip dynamic pseudo-classes / pseudo-elements so a selector can be tested with querySelector
+const matchableSelector = (selector: string) =>
+  selector
+    .replace(/::?(before|after|placeholder|selection|marker|-webkit-[\w-]+|-moz-[\w-]+)/g, '')
+    .replace(/:(hover|focus|focus-within|focus-visible|active|visited|disabled|checked)/g, '')
+    .trim();
+
+const ruleMatches = (root: HTMLElement, selectorText: string) => {
+  return selectorText.split(',').some(part => {
+    const selector = matchableSelector(part);
+    if (!selector) return true; // Pure pseudo-element rules such as ::before
+    try {
+      return root.matches(selector) || !!root.querySelector(selector);
+    } catch {
+      return true; // Keep anything we cannot evaluate
+    }
+  });
+};
+
+// Collect the page's stylesheet rules (incl. Tailwind's generated CSS) used by the poster
+const collectCss = (root: HTMLElement): string => {
+  const collect = (rules: CSSRuleList): string[] => {
+    const out: string[] = [];
+    Array.from(rules).forEach(rule => {
+      if (rule instanceof CSSStyleRule) {
+        if (ruleMatches(root, rule.selectorText)) out.push(rule.cssText);
+      } else if (rule instanceof CSSMediaRule) {
+        const inner = collect(rule.cssRules);
+        if (inner.length) out.push(`@media ${rule.conditionText} {\n${inner.join('\n')}\n}`);
+      } else if (rule instanceof CSSKeyframesRule || rule instanceof CSSFontFaceRule) {
+        out.push(rule.cssText);
+      }
+    });
+    return out;
+  };
+
+  const css: string[] = [];
+  Array.from(document.styleSheets).forEach(sheet => {
+    try {
+      css.push(...collect(sheet.cssRules));
+    } catch {
+      // Cross-origin stylesheet without CORS headers - not readable, skip
+    }
+  });
+  return css.join('\n');
+};
+
+// Turns the rendered PosterPreview into one self-contained HTML page.
+// The live DOM is reused so every layout, theme and block type is reproduced as-is.
+export const buildPosterHtml = async (node: HTMLElement, options: HtmlExportOptions): Promise<HtmlExportResult> => {
+  const clone = node.cloneNode(true) as HTMLElement;
+
+  // Editing chrome and preview-only helpers
+  clone.querySelectorAll('.no-export').forEach(el => el.remove());
+  clone.removeAttribute('id');
+  clone.classList.add('poster-page');
+  clone.style.transform = '';
+  // Text in the page should be selectable
+  clone.querySelectorAll('.select-none').forEach(el => el.classList.remove('select-none'));
+  clone.querySelectorAll('.cursor-move').forEach(el => el.classList.remove('cursor-move'));
+
+  const assets: HtmlExportResult['assets'] = [];
+  const images = Array.from(clone.querySelectorAll('img'));
+  for (let i = 0; i < images.length; i++) {
+    const img = images[i];
+    const src = img.getAttribute('src');
+    img.removeAttribute('crossorigin');
+    if (!src) continue;
+
+    const blob = await fetchImageBlob(src);
+    if (options.imageMode === 'embedded') {
+      img.setAttribute('src', await blobToDataUrl(blob));
+    } else {
+      const path = `images/image-${String(i + 1).padStart(2, '0')}.${extensionForMime(blob.type)}`;
+      assets.push({ path, blob });
+      img.setAttribute('src', path);
+    }
+  }
+
+  const fontFamily = getComputedStyle(node).fontFamily;
+  const css = collectCss(clone);
+
+  const html = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=${node.offsetWidth}" />
+<title>${escapeHtml(options.title)}</title>
+<style>
+html { font-size: 16px; }
+body { margin: 0; background: ${options.backgroundColor}; font-family: ${fontFamily}; -webkit-font-smoothing: antialiased; }
+.poster-page { margin: 0 auto; box-shadow: none !important; }
+${css}
+</style>
+</head>
+<body>
+<main>
+${clone.outerHTML}
+</main>
+</body>
+</html>
+`;
+
+  return { html, assets };
+};
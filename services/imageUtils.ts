@@ -0,0 +1,96 @@
+// Helper: Read a Blob as a data URL
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Helper: Convert Blob URL to Base64 for storage
+export const blobUrlToBase64 = async (url: string): Promise<string> => {
+  if (!url || url.startsWith('data:')) return url; // Already base64 or empty
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return blobToDataUrl(blob);
+  } catch (e) {
+    console.error("Image conversion failed", e);
+    return "";
+  }
+};
+
+// Helper: Resize and Compress Image on Upload
+export const processImageFile = (file: File, maxWidth: number = 960): Promise<string> => {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = (readerEvent) => {
+      const img = new Image();
+      img.onload = () => {
+        let width = img.width;
+        let height = img.height;
+
+        // Resize logic: Only downscale if larger than maxWidth
+        if (width > maxWidth) {
+          height = Math.round((height * maxWidth) / width);
+          width = maxWidth;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        
+        if (!ctx) {
+          // Fallback to original if canvas fails
+          resolve(URL.createObjectURL(file));
+          return;
+        }
+
+        // Fill white background for JPEGs (handles transparent PNGs converting to JPEG black background issue)
+        // Note: If preserving PNG transparency is critical, we might need logic here, 
+        // but for product details, white bg is usually safer for JPEGs.
+        if (file.type !== 'image/png') {
+           ctx.fillStyle = '#FFFFFF';
+           ctx.fillRect(0, 0, width, height);
+        }
+
+        ctx.drawImage(img, 0, 0, width, height);
+
+        // Compress
+        const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+        const quality = 0.7; // Reduced quality for better performance
+
+        canvas.toBlob((blob) => {
+          if (blob) {
+            resolve(URL.createObjectURL(blob));
+          } else {
+            resolve(URL.createObjectURL(file));
+          }
+        }, mimeType, quality);
+      };
+      img.onerror = () => resolve(URL.createObjectURL(file)); // Fallback
+      img.src = readerEvent.target?.result as string;
+    };
+    reader.onerror = () => resolve(URL.createObjectURL(file)); // Fallback
+    reader.readAsDataURL(file);
+  });
+};
+
+// Helper: Fetch any image URL (blob:, data:, http) as a Blob
+export const fetchImageBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`图片读取失败 (${response.status})`);
+  return response.blob();
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg'
+};
+
+export const extensionForMime = (mime: string) => MIME_EXTENSIONS[mime] || 'bin';
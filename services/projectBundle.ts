@@ -0,0 +1,135 @@
+import JSZip from 'jszip';
+import { SavedRecord } from '../types';
+import { fetchImageBlob, extensionForMime } from './imageUtils';
+import { createProjectFile, readProjectFile, readProjectAssets, mapRecordImages, ProjectAsset, ProjectFormatError } from './projectFormat';
+
+// --- Project Bundle (.xqproj) ---
+// A zip holding:
+//   project.json          the versioned ProjectFile envelope
+//   assets/<sha256>.<ext>  original image files, stored once per distinct content
+// Image fields in project.json reference assets as "asset:<sha256>".
+
+export const BUNDLE_EXTENSION = 'xqproj';
+export const ASSET_REF_PREFIX = 'asset:';
+const PROJECT_ENTRY = 'project.json';
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  if (!crypto.subtle) throw new Error('当前页面不支持计算文件哈希，请通过 HTTPS 或 localhost 访问');
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const isAssetRef = (url: string | null | undefined): boolean => !!url && url.startsWith(ASSET_REF_PREFIX);
+
+// Zip files start with the local file header signature "PK\x03\x04"
+const isZip = async (file: Blob) => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+};
+
+export const buildProjectBundle = async (record: SavedRecord): Promise<Blob> => {
+  const zip = new JSZip();
+  const assets: Record<string, ProjectAsset> = {};
+  const refs = new Map<string, string>(); // Same URL used twice is read once
+
+  const withRefs = await mapRecordImages(record, async (url) => {
+    const cached = refs.get(url);
+    if (cached) return cached;
+
+    const blob = await fetchImageBlob(url);
+    const hash = await hashBlob(blob);
+    if (!assets[hash]) {
+      const path = `assets/${hash}.${extensionForMime(blob.type)}`;
+      assets[hash] = { path, type: blob.type, size: blob.size };
+      zip.file(path, blob, { compression: 'STORE' }); // Images are already compressed
+    }
+    const ref = `${ASSET_REF_PREFIX}${hash}`;
+    refs.set(url, ref);
+    return ref;
+  });
+
+  zip.file(PROJECT_ENTRY, JSON.stringify(createProjectFile(withRefs, assets), null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/zip' });
+};
+
+const readBundleEntry = async (zip: JSZip) => {
+  const entry = zip.file(PROJECT_ENTRY);
+  if (!entry) throw new ProjectFormatError(`工程包中缺少 ${PROJECT_ENTRY}`);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await entry.async('string'));
+  } catch {
+    throw new ProjectFormatError(`${PROJECT_ENTRY} 不是有效的 JSON`);
+  }
+  const record = readProjectFile(json);
+  const manifest = readProjectAssets(json);
+  return { record, manifest };
+};
+
+// Resolves asset refs to blob URLs; the caller owns the returned URLs
+const readProjectBundle = async (file: Blob): Promise<SavedRecord> => {
+  const zip = await JSZip.loadAsync(file);
+  const { record, manifest } = await readBundleEntry(zip);
+
+  const missing: string[] = [];
+  const urls = new Map<string, string>();
+  const resolved = await mapRecordImages(record, async (url) => {
+    if (!isAssetRef(url)) return url;
+    const hash = url.slice(ASSET_REF_PREFIX.length);
+    const cached = urls.get(hash);
+    if (cached) return cached;
+
+    const asset = manifest[hash];
+    const assetFile = asset && zip.file(asset.path);
+    if (!assetFile) {
+      missing.push(hash);
+      return '';
+    }
+    const blob = new Blob([await assetFile.async('arraybuffer')], { type: asset.type });
+    const blobUrl = URL.createObjectURL(blob);
+    urls.set(hash, blobUrl);
+    return blobUrl;
+  });
+
+  if (missing.length) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw new ProjectFormatError(
+      `工程包中缺少 ${missing.length} 个图片文件`,
+      missing.map(hash => ({ path: `assets/${hash}`, message: '图片文件不存在' }))
+    );
+  }
+  return resolved;
+};
+
+// Accepts a .xqproj bundle or a legacy / versioned .json project file
+export const importProjectFile = async (file: Blob): Promise<SavedRecord> => {
+  if (await isZip(file)) return readProjectBundle(file);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new ProjectFormatError('文件不是有效的工程包或 JSON');
+  }
+  return readProjectFile(json);
+};
+
+// Reads only the project record; images stay as "asset:" references.
+// Cheap enough for listing a folder full of projects.
+export const peekProjectFile = async (file: Blob): Promise<SavedRecord> => {
+  if (!(await isZip(file))) return importProjectFile(file);
+  return (await readBundleEntry(await JSZip.loadAsync(file))).record;
+};
+
+// Rewrites project.json in place, keeping the bundled image files
+export const updateProjectFile = async (file: Blob, update: (record: SavedRecord) => SavedRecord): Promise<Blob> => {
+  if (!(await isZip(file))) {
+    const record = update(await importProjectFile(file));
+    return new Blob([JSON.stringify(createProjectFile(record), null, 2)], { type: 'application/json' });
+  }
+  const zip = await JSZip.loadAsync(file);
+  const { record, manifest } = await readBundleEntry(zip);
+  zip.file(PROJECT_ENTRY, JSON.stringify(createProjectFile(update(record), manifest), null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/zip' });
+};
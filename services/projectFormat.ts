@@ -0,0 +1,403 @@
+import { ExportSettings, SavedRecord } from '../types';
+import { sanitizeRichText } from './sanitizeHtml';
+import { EXPORT_SETTING_CHECKS, keepValidExportSettings } from './exportSettings';
+
+// --- Versioning ---
+// Every saved record carries `formatVersion`. Exported project files wrap the
+// record in an envelope so the file itself can be recognised and versioned:
+//   { format: 'poster-detail-project', formatVersion, exportedAt, project }
+// Files written before versioning are a bare SavedRecord and count as version 0.
+//
+// To change the schema: bump CURRENT_FORMAT_VERSION and append a migration
+// that upgrades a record from the previous version.
+
+export const PROJECT_FILE_FORMAT = 'poster-detail-project';
+export const CURRENT_FORMAT_VERSION = 4;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  project: SavedRecord;
+  assets?: Record<string, ProjectAsset>; // Bundles only, keyed by content hash
+}
+
+export interface ProjectAsset {
+  path: string; // File inside the bundle, e.g. "assets/<sha256>.jpg"
+  type: string;
+  size: number;
+}
+
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  to: number;
+  description: string;
+  migrate: (record: RawRecord) => RawRecord;
+}
+
+let generatedIdCounter = 0;
+const generateId = (prefix: string) => `${prefix}-${Date.now()}-${generatedIdCounter++}`;
+
+export const isObject = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: 'Fill fields that unversioned records could omit',
+    migrate: (record) => {
+      const data = record.data;
+      const withIds = (items: unknown, prefix: string) =>
+        Array.isArray(items)
+          ? items.map(item => (isObject(item) && item.id == null ? { ...item, id: generateId(prefix) } : item))
+          : items;
+
+      return {
+        ...record,
+        id: record.id != null ? String(record.id) : Date.now().toString(),
+        name: typeof record.name === 'string' ? record.name : '未命名工程',
+        timestamp: typeof record.timestamp === 'number' ? record.timestamp : Date.now(),
+        functionalImages: record.functionalImages ?? [],
+        data: isObject(data)
+          ? {
+              ...data,
+              marketingCopy: data.marketingCopy ?? '',
+              details: withIds(data.details ?? [], 'detail'),
+              content: withIds(data.content ?? [], 'block')
+            }
+          : data
+      };
+    }
+  },
+  {
+    to: 2,
+    description: 'Table content blocks; older records have none, so nothing to change',
+    migrate: (record) => record
+  },
+  {
+    to: 3,
+    description: 'Gallery content blocks; older records have none, so nothing to change',
+    migrate: (record) => record
+  },
+  {
+    to: 4,
+    description: 'Export settings are validated per field; drop values the settings modal could not produce',
+    migrate: (record) => {
+      const settings = record.exportSettings;
+      if (settings === undefined) return record;
+      return { ...record, exportSettings: isObject(settings) ? keepValidExportSettings(settings) : undefined };
+    }
+  }
+];
+
+// --- Validation ---
+
+export interface ValidationIssue {
+  path: string; // e.g. "data.content[3].value"
+  message: string;
+}
+
+export class ProjectFormatError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'ProjectFormatError';
+    this.issues = issues;
+  }
+}
+
+// Human-readable report for alerts; long lists are truncated
+export const describeIssues = (issues: ValidationIssue[], limit: number = 8): string => {
+  const lines = issues.slice(0, limit).map(issue => `• ${issue.path || '(根)'}：${issue.message}`);
+  if (issues.length > limit) lines.push(`… 以及另外 ${issues.length - limit} 处问题`);
+  return lines.join('\n');
+};
+
+const TEXT_ALIGNS = ['left', 'center', 'right', 'justify'];
+const TABLE_ALIGNS = ['left', 'center', 'right'];
+const BLOCK_TYPES = ['text', 'image', 'table', 'gallery'];
+const GALLERY_COLUMNS = [2, 3, 4];
+
+const validateRecord = (record: RawRecord): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const expect = (ok: boolean, path: string, message: string) => {
+    if (!ok) issues.push({ path, message });
+    return ok;
+  };
+  const isString = (value: unknown): value is string => typeof value === 'string';
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const isOneOf = (value: unknown, options: readonly unknown[]) => options.includes(value);
+  // Report a problem and narrow the value for the checks that follow
+  const checkObject = (value: unknown, path: string, message: string = '应为对象'): value is RawRecord =>
+    expect(isObject(value), path, message);
+  const checkList = (value: unknown, path: string, message: string = '应为列表'): value is unknown[] =>
+    expect(Array.isArray(value), path, message);
+  const checkString = (value: unknown, path: string) => expect(isString(value), path, '应为文本');
+  const checkNumber = (value: unknown, path: string) => expect(isNumber(value), path, '应为数字');
+  const checkAlign = (value: unknown, path: string) =>
+    value === undefined || expect(isOneOf(value, TEXT_ALIGNS), path, `应为 ${TEXT_ALIGNS.join(' / ')} 之一`);
+
+  const checkTable = (table: RawRecord, path: string) => {
+    const aligns: unknown[] = Array.isArray(table.columnAligns) ? table.columnAligns : [];
+    const width = aligns.length;
+    if (expect(width > 0, `${path}.columnAligns`, '应为非空列表')) {
+      aligns.forEach((align, i) =>
+        expect(isOneOf(align, TABLE_ALIGNS), `${path}.columnAligns[${i}]`, `应为 ${TABLE_ALIGNS.join(' / ')} 之一`));
+    }
+    expect(typeof table.headerRow === 'boolean', `${path}.headerRow`, '应为布尔值');
+    expect(typeof table.striped === 'boolean', `${path}.striped`, '应为布尔值');
+    const rows: unknown[] = Array.isArray(table.rows) ? table.rows : [];
+    if (!expect(rows.length > 0, `${path}.rows`, '应为非空列表')) return;
+    rows.forEach((row, r) => {
+      const rowPath = `${path}.rows[${r}]`;
+      if (!expect(Array.isArray(row) && row.length === width, rowPath, `应为 ${width} 个单元格`)) return;
+      (row as unknown[]).forEach((cell, c) => {
+        const cellPath = `${rowPath}[${c}]`;
+        if (!checkObject(cell, cellPath)) return;
+        checkString(cell.text, `${cellPath}.text`);
+        // Spans must stay inside the grid
+        const { rowSpan, colSpan } = cell;
+        if (rowSpan !== undefined) expect(isNumber(rowSpan) && Number.isInteger(rowSpan) && rowSpan >= 1 && r + rowSpan <= rows.length, `${cellPath}.rowSpan`, '超出表格范围');
+        if (colSpan !== undefined) expect(isNumber(colSpan) && Number.isInteger(colSpan) && colSpan >= 1 && c + colSpan <= width, `${cellPath}.colSpan`, '超出表格范围');
+      });
+    });
+  };
+
+  const checkCrop = (crop: unknown, path: string) => {
+    if (crop === undefined || !checkObject(crop, path)) return;
+    checkNumber(crop.x, `${path}.x`);
+    checkNumber(crop.y, `${path}.y`);
+    checkNumber(crop.scale, `${path}.scale`);
+  };
+
+  const checkGallery = (gallery: RawRecord, path: string) => {
+    expect(isOneOf(gallery.columns, GALLERY_COLUMNS), `${path}.columns`, `应为 ${GALLERY_COLUMNS.join(' / ')} 之一`);
+    checkNumber(gallery.gap, `${path}.gap`);
+    checkNumber(gallery.radius, `${path}.radius`);
+    expect(isNumber(gallery.aspectRatio) && gallery.aspectRatio > 0, `${path}.aspectRatio`, '应为正数');
+    if (!checkList(gallery.images, `${path}.images`)) return;
+    gallery.images.forEach((img, i) => {
+      const imgPath = `${path}.images[${i}]`;
+      if (!checkObject(img, imgPath)) return;
+      checkString(img.id, `${imgPath}.id`);
+      checkString(img.url, `${imgPath}.url`);
+      if (img.caption !== undefined) checkString(img.caption, `${imgPath}.caption`);
+      checkCrop(img.crop, `${imgPath}.crop`);
+    });
+  };
+
+  checkString(record.id, 'id');
+  checkString(record.name, 'name');
+  checkNumber(record.timestamp, 'timestamp');
+
+  // Poster content
+  const data = record.data;
+  if (checkObject(data, 'data', '缺少工程内容')) {
+    checkString(data.subTitle, 'data.subTitle');
+    checkString(data.marketingCopy, 'data.marketingCopy');
+
+    if (checkList(data.details, 'data.details')) {
+      data.details.forEach((detail, i) => {
+        const path = `data.details[${i}]`;
+        if (!checkObject(detail, path)) return;
+        checkString(detail.id, `${path}.id`);
+        checkString(detail.label, `${path}.label`);
+        checkString(detail.value, `${path}.value`);
+        checkAlign(isObject(detail.style) ? detail.style.textAlign : undefined, `${path}.style.textAlign`);
+      });
+    }
+
+    if (checkList(data.content, 'data.content')) {
+      data.content.forEach((block, i) => {
+        const path = `data.content[${i}]`;
+        if (!checkObject(block, path)) return;
+        checkString(block.id, `${path}.id`);
+        expect(isOneOf(block.type, BLOCK_TYPES), `${path}.type`, `未知的内容块类型 "${block.type}"`);
+        checkString(block.value, `${path}.value`);
+        if (block.type === 'table' && checkObject(block.table, `${path}.table`, '表格块缺少表格数据')) {
+          checkTable(block.table, `${path}.table`);
+        }
+        if (block.type === 'gallery' && checkObject(block.gallery, `${path}.gallery`, '图组块缺少图组数据')) {
+          checkGallery(block.gallery, `${path}.gallery`);
+        }
+        if (block.alt !== undefined) checkString(block.alt, `${path}.alt`);
+        if (block.style !== undefined && checkObject(block.style, `${path}.style`)) {
+          if (block.style.height !== undefined) checkNumber(block.style.height, `${path}.style.height`);
+          checkAlign(block.style.textAlign, `${path}.style.textAlign`);
+        }
+      });
+    }
+
+    const copyStyle = data.marketingCopyStyle;
+    if (copyStyle !== undefined && checkObject(copyStyle, 'data.marketingCopyStyle')) {
+      if (copyStyle.position !== undefined) {
+        expect(isOneOf(copyStyle.position, ['afterTitle', 'beforeContent']), 'data.marketingCopyStyle.position', '应为 afterTitle / beforeContent 之一');
+      }
+      checkAlign(copyStyle.textAlign, 'data.marketingCopyStyle.textAlign');
+    }
+  }
+
+  // Header image
+  const imageConfig = record.imageConfig;
+  if (checkObject(imageConfig, 'imageConfig', '缺少头图设置')) {
+    expect(imageConfig.url === null || isString(imageConfig.url), 'imageConfig.url', '应为文本或 null');
+    checkNumber(imageConfig.x, 'imageConfig.x');
+    checkNumber(imageConfig.y, 'imageConfig.y');
+    checkNumber(imageConfig.scale, 'imageConfig.scale');
+  }
+
+  if (checkList(record.functionalImages, 'functionalImages')) {
+    record.functionalImages.forEach((img, i) => {
+      const path = `functionalImages[${i}]`;
+      if (!checkObject(img, path)) return;
+      checkString(img.id, `${path}.id`);
+      checkString(img.url, `${path}.url`);
+      checkCrop(img.crop, `${path}.crop`);
+    });
+  }
+
+  // Optional style settings
+  const theme = record.theme;
+  if (theme !== undefined && checkObject(theme, 'theme')) {
+    ['pageBackground', 'cardBackground', 'accentColor', 'labelTextColor', 'headingColor', 'textColor']
+      .forEach(key => checkString(theme[key], `theme.${key}`));
+    checkNumber(theme.cardRadius, 'theme.cardRadius');
+    checkNumber(theme.imageRadius, 'theme.imageRadius');
+  }
+  if (record.layoutId !== undefined) checkString(record.layoutId, 'layoutId');
+  const exportSettings = record.exportSettings;
+  if (exportSettings !== undefined && checkObject(exportSettings, 'exportSettings')) {
+    // Missing fields fall back to the defaults
+    (Object.keys(EXPORT_SETTING_CHECKS) as (keyof ExportSettings)[]).forEach(key => {
+      const check = EXPORT_SETTING_CHECKS[key];
+      if (exportSettings[key] !== undefined) expect(check.valid(exportSettings[key]), `exportSettings.${key}`, check.expected);
+    });
+  }
+  if (record.thumbnail !== undefined) checkString(record.thumbnail, 'thumbnail');
+  if (record.tags !== undefined && checkList(record.tags, 'tags')) {
+    record.tags.forEach((tag, i) => checkString(tag, `tags[${i}]`));
+  }
+  if (record.folder !== undefined) checkString(record.folder, 'folder');
+
+  return issues;
+};
+
+// --- Upgrade Entry Points ---
+
+// Runs the migration chain on a record and validates the result.
+// Throws ProjectFormatError naming every broken field.
+export const upgradeRecord = (raw: unknown, fromVersion?: number): SavedRecord => {
+  if (!isObject(raw)) throw new ProjectFormatError('工程数据不是有效的对象');
+
+  const version = fromVersion ?? (typeof raw.formatVersion === 'number' ? raw.formatVersion : 0);
+  if (version > CURRENT_FORMAT_VERSION) {
+    throw new ProjectFormatError(`该工程由更新版本的编辑器创建（格式版本 ${version}，当前支持 ${CURRENT_FORMAT_VERSION}），请升级后再打开`);
+  }
+
+  let record: RawRecord = raw;
+  MIGRATIONS.filter(m => m.to > version).forEach(m => {
+    record = m.migrate(record);
+  });
+  record = { ...record, formatVersion: CURRENT_FORMAT_VERSION };
+
+  const issues = validateRecord(record);
+  if (issues.length) throw new ProjectFormatError(`工程数据有 ${issues.length} 处字段无效`, issues);
+  // Validated above, so the shape is known. Files from elsewhere may still
+  // carry scripts or foreign markup in their rich text.
+  return sanitizeRecordText(record as unknown as SavedRecord);
+};
+
+// Accepts a parsed project file: the versioned envelope or a legacy bare record
+export const readProjectFile = (json: unknown): SavedRecord => {
+  if (isObject(json) && json.format === PROJECT_FILE_FORMAT) {
+    if (typeof json.formatVersion !== 'number') {
+      throw new ProjectFormatError('文件缺少格式版本', [{ path: 'formatVersion', message: '应为数字' }]);
+    }
+    return upgradeRecord(json.project, json.formatVersion);
+  }
+  if (isObject(json) && ('data' in json || 'imageConfig' in json)) {
+    return upgradeRecord(json, 0);
+  }
+  throw new ProjectFormatError('不是可识别的工程文件');
+};
+
+// The asset manifest of a bundle or backup, keyed by sha256; bare legacy records have none
+export const readProjectAssets = (json: unknown): Record<string, ProjectAsset> => {
+  const assets = isObject(json) ? json.assets : undefined;
+  if (assets === undefined) return {};
+  if (!isObject(assets)) {
+    throw new ProjectFormatError('图片清单无效', [{ path: 'assets', message: '应为对象' }]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  Object.entries(assets).forEach(([hash, asset]) => {
+    const path = `assets.${hash}`;
+    if (!/^[0-9a-f]{64}$/.test(hash)) issues.push({ path, message: '键应为 sha256 哈希' });
+    if (!isObject(asset)) {
+      issues.push({ path, message: '应为对象' });
+      return;
+    }
+    if (typeof asset.path !== 'string') issues.push({ path: `${path}.path`, message: '应为文本' });
+    if (typeof asset.type !== 'string') issues.push({ path: `${path}.type`, message: '应为文本' });
+    if (typeof asset.size !== 'number' || !(asset.size >= 0)) issues.push({ path: `${path}.size`, message: '应为不小于 0 的数字' });
+  });
+  if (issues.length) throw new ProjectFormatError(`图片清单有 ${issues.length} 处条目无效`, issues);
+
+  // Every entry was checked above
+  return assets as unknown as Record<string, ProjectAsset>;
+};
+
+export const createProjectFile = (record: SavedRecord, assets?: Record<string, ProjectAsset>): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  formatVersion: CURRENT_FORMAT_VERSION,
+  exportedAt: Date.now(),
+  project: { ...record, formatVersion: CURRENT_FORMAT_VERSION },
+  ...(assets ? { assets } : {})
+});
+
+// --- Rich Text Fields ---
+
+export const sanitizeRecordText = (record: SavedRecord): SavedRecord => ({
+  ...record,
+  data: {
+    ...record.data,
+    marketingCopy: sanitizeRichText(record.data.marketingCopy),
+    details: record.data.details.map(d => ({ ...d, value: sanitizeRichText(d.value) })),
+    content: record.data.content.map(block =>
+      block.type === 'text' ? { ...block, value: sanitizeRichText(block.value) } : block
+    )
+  }
+});
+
+// --- Image Fields ---
+
+// Rewrites every image URL in a record (header, main images, image and gallery blocks).
+// Empty URLs are passed through untouched.
+export const mapRecordImages = async (
+  record: SavedRecord,
+  map: (url: string) => Promise<string>
+): Promise<SavedRecord> => {
+  const mapUrl = (url: string | null) => (url ? map(url) : Promise.resolve(url));
+
+  const [headerUrl, functionalImages, content] = await Promise.all([
+    mapUrl(record.imageConfig.url),
+    Promise.all((record.functionalImages || []).map(async img => ({ ...img, url: (await mapUrl(img.url)) as string }))),
+    Promise.all(record.data.content.map(async block => {
+      if (block.type === 'image') return { ...block, value: (await mapUrl(block.value)) as string };
+      if (block.type === 'gallery' && block.gallery) {
+        const images = await Promise.all(block.gallery.images.map(async img => ({ ...img, url: (await mapUrl(img.url)) as string })));
+        return { ...block, gallery: { ...block.gallery, images } };
+      }
+      return block;
+    }))
+  ]);
+
+  return {
+    ...record,
+    imageConfig: { ...record.imageConfig, url: headerUrl },
+    functionalImages,
+    data: { ...record.data, content }
+  };
+};
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockSyncServer } from '../scripts/mock-sync-server.mjs';
+import { createRemoteProvider, SyncConflictError } from './remoteStorage';
+import { indexedDbProvider } from './storageProvider';
+import { dbAPI } from './db';
+import { SavedRecord } from '../types';
+
+const makeRecord = (id: string, name: string): SavedRecord => ({
+  id,
+  name,
+  timestamp: Date.now(),
+  data: { subTitle: name, marketingCopy: '', details: [], content: [] },
+  imageConfig: { url: null, x: 0, y: 0, scale: 1 },
+  functionalImages: []
+});
+
+let server: Server;
+let baseUrl: string;
+
+// Reads a draft straight from the server, bypassing the provider
+const fetchDraft = async (id: string) => {
+  const response = await fetch(`${baseUrl}/drafts/${encodeURIComponent(id)}`);
+  return response.ok ? { etag: response.headers.get('ETag'), project: await response.json() } : null;
+};
+
+const newProvider = () => createRemoteProvider({ baseUrl }, indexedDbProvider);
+
+beforeAll(async () => {
+  server = createMockSyncServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('remote storage provider', () => {
+  it('creates a draft on the server', async () => {
+    const provider = newProvider();
+    await provider.save(makeRecord('create', '新建'));
+
+    expect((await fetchDraft('create'))?.project.project.name).toBe('新建');
+    expect((await provider.list()).map(r => r.id)).toContain('create');
+  });
+
+  it('updates a draft with the version it last saw', async () => {
+    const provider = newProvider();
+    await provider.save(makeRecord('update', '第一版'));
+    const first = await fetchDraft('update');
+
+    await provider.save(makeRecord('update', '第二版'));
+    const second = await fetchDraft('update');
+    expect(second?.project.project.name).toBe('第二版');
+    expect(second?.etag).not.toBe(first?.etag);
+
+    // The old version no longer matches
+    const stale = await fetch(`${baseUrl}/drafts/update`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'If-Match': first!.etag! },
+      body: JSON.stringify(first!.project)
+    });
+    expect(stale.status).toBe(412);
+  });
+
+  it('reports a conflict when someone else saved first', async () => {
+    const mine = newProvider();
+    const theirs = newProvider();
+    await mine.save(makeRecord('conflict', '原始'));
+    await theirs.list();
+    await mine.save(makeRecord('conflict', '我的修改'));
+
+    const error = await theirs.save(makeRecord('conflict', '他人的修改')).catch(e => e);
+    expect(error).toBeInstanceOf(SyncConflictError);
+    expect(error.remote.name).toBe('我的修改');
+
+    await error.overwrite();
+    expect((await fetchDraft('conflict'))?.project.project.name).toBe('他人的修改');
+  });
+
+  it('reports a conflict when the draft was deleted remotely', async () => {
+    const mine = newProvider();
+    const theirs = newProvider();
+    await mine.save(makeRecord('deleted-remotely', '原始'));
+    await theirs.list();
+    await mine.delete(['deleted-remotely']);
+
+    const error = await theirs.save(makeRecord('deleted-remotely', '继续编辑')).catch(e => e);
+    expect(error).toBeInstanceOf(SyncConflictError);
+    expect(error.remote).toBeNull();
+
+    // Overwriting recreates the draft
+    await error.overwrite();
+    expect((await fetchDraft('deleted-remotely'))?.project.project.name).toBe('继续编辑');
+  });
+
+  it('deletes a draft', async () => {
+    const provider = newProvider();
+    await provider.save(makeRecord('delete', '待删除'));
+    await provider.delete(['delete']);
+
+    expect(await fetchDraft('delete')).toBeNull();
+    expect((await provider.list()).map(r => r.id)).not.toContain('delete');
+  });
+
+  it('sends saves and deletes made offline on the next list', async () => {
+    const provider = newProvider();
+    await provider.save(makeRecord('offline-kept', '离线前'));
+    await provider.save(makeRecord('offline-removed', '离线删除'));
+    await provider.list();
+
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    await provider.save(makeRecord('offline-kept', '离线修改'));
+    await provider.save(makeRecord('offline-new', '离线新建'));
+    await provider.delete(['offline-removed']);
+    expect(provider.label).toContain('离线');
+    expect((await provider.list()).map(r => r.id).sort()).toEqual(['offline-kept', 'offline-new']);
+    expect((await fetchDraft('offline-kept'))?.project.project.name).toBe('离线前');
+    expect(await fetchDraft('offline-removed')).not.toBeNull();
+
+    onLine.mockReturnValue(true);
+    const ids = (await provider.list()).map(r => r.id);
+    expect(ids).toEqual(expect.arrayContaining(['offline-kept', 'offline-new']));
+    expect(ids).not.toContain('offline-removed');
+    expect((await fetchDraft('offline-kept'))?.project.project.name).toBe('离线修改');
+    expect(await fetchDraft('offline-removed')).toBeNull();
+    expect(await dbAPI.getMeta('remoteOutbox')).toEqual([]);
+  });
+});
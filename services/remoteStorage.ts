@@ -0,0 +1,284 @@
+import { SavedRecord } from '../types';
+import type { StorageProvider } from './storageProvider';
+import { dbAPI } from './db';
+import { fetchImageBlob } from './imageUtils';
+import { hashBlob, isAssetRef, ASSET_REF_PREFIX } from './projectBundle';
+import { createProjectFile, readProjectFile, mapRecordImages, ProjectFile } from './projectFormat';
+
+// --- Team Sync Server (REST) ---
+// Drafts live on a small self-hosted HTTP API:
+//   GET    /drafts          -> [{ etag, project }]        project = ProjectFile envelope
+//   GET    /drafts/:id      -> ProjectFile, ETag header
+//   PUT    /drafts/:id      <- ProjectFile; If-Match: <etag> to update, If-None-Match: * to create
+//                              412 + current ProjectFile when someone else saved first,
+//                              412 with an empty body when the draft was deleted
+//   DELETE /drafts/:id      If-Match: <etag>; 412 + current ProjectFile as above
+//   PUT    /assets/:sha256  <- image bytes (idempotent)
+//   GET    /assets/:sha256  -> image bytes
+// Images are referenced as "asset:<sha256>", like in bundles and IndexedDB.
+// scripts/mock-sync-server.mjs implements this API in memory.
+//
+// While the server is unreachable the provider works on IndexedDB instead.
+// Drafts saved or deleted offline are queued and sent on the next successful list().
+
+export interface RemoteConfig {
+  baseUrl: string;
+  token?: string;
+}
+
+// Someone else changed the draft since we last read it
+export class SyncConflictError extends Error {
+  remote: SavedRecord | null; // null when the draft was deleted remotely
+  overwrite?: () => Promise<SavedRecord>; // Saves again, ignoring the remote change
+
+  constructor(remote: SavedRecord | null, overwrite?: () => Promise<SavedRecord>) {
+    super(remote
+      ? `服务器上的“${remote.name}”已在 ${new Date(remote.timestamp).toLocaleString()} 被其他人修改`
+      : '服务器上的该草稿已被其他人删除');
+    this.name = 'SyncConflictError';
+    this.remote = remote;
+    this.overwrite = overwrite;
+  }
+}
+
+class OfflineError extends Error {}
+
+interface OutboxEntry {
+  id: string;
+  etag: string | null; // Version the offline edit was based on
+  deleted?: boolean; // Deleted offline instead of saved
+}
+
+const OUTBOX_KEY = 'remoteOutbox';
+
+export const createRemoteProvider = (config: RemoteConfig, fallback: StorageProvider): StorageProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const etags = new Map<string, string>();
+  const uploadedAssets = new Set<string>();
+  const assetUrls = new Map<string, string>(); // hash -> blob URL, kept for the session
+  let offline = false;
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    if (!navigator.onLine) throw new OfflineError();
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+          ...init.headers
+        }
+      });
+    } catch {
+      throw new OfflineError(); // DNS, refused connection, CORS...
+    }
+    offline = false;
+    return response;
+  };
+
+  const expectOk = async (response: Response) => {
+    if (!response.ok) throw new Error(`同步服务器错误 (${response.status} ${response.statusText})`);
+    return response;
+  };
+
+  // Runs `online`, or `offlineFallback` when the server cannot be reached
+  const withFallback = async <T>(online: () => Promise<T>, offlineFallback: () => Promise<T>): Promise<T> => {
+    try {
+      return await online();
+    } catch (e) {
+      if (!(e instanceof OfflineError)) throw e;
+      offline = true;
+      return offlineFallback();
+    }
+  };
+
+  const getOutbox = async () => (await dbAPI.getMeta<OutboxEntry[]>(OUTBOX_KEY)) || [];
+  const setOutbox = (entries: OutboxEntry[]) => dbAPI.setMeta(OUTBOX_KEY, entries);
+
+  const uploadImages = (record: SavedRecord) =>
+    mapRecordImages(record, async (url) => {
+      if (isAssetRef(url)) return url;
+      const blob = await fetchImageBlob(url);
+      const hash = await hashBlob(blob);
+      if (!uploadedAssets.has(hash)) {
+        await expectOk(await request(`/assets/${hash}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+          body: blob
+        }));
+        uploadedAssets.add(hash);
+      }
+      return `${ASSET_REF_PREFIX}${hash}`;
+    });
+
+  const downloadImages = (record: SavedRecord) =>
+    mapRecordImages(record, async (url) => {
+      if (!isAssetRef(url)) return url;
+      const hash = url.slice(ASSET_REF_PREFIX.length);
+      const cached = assetUrls.get(hash);
+      if (cached) return cached;
+      const blob = await (await expectOk(await request(`/assets/${hash}`))).blob();
+      const blobUrl = URL.createObjectURL(blob);
+      assetUrls.set(hash, blobUrl);
+      uploadedAssets.add(hash);
+      return blobUrl;
+    });
+
+  // The current server version, or null when the draft no longer exists
+  const readConflict = async (response: Response) => {
+    try {
+      return readProjectFile(await response.json());
+    } catch {
+      return null;
+    }
+  };
+
+  // PUT with optimistic locking. `etag` undefined = create only, null = unconditional.
+  const putDraft = async (record: SavedRecord, etag: string | null | undefined): Promise<SavedRecord> => {
+    const withRefs = await uploadImages(record);
+    const conditions: Record<string, string> =
+      etag === undefined ? { 'If-None-Match': '*' } : etag === null ? {} : { 'If-Match': etag };
+    const response = await request(`/drafts/${encodeURIComponent(record.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...conditions },
+      body: JSON.stringify(createProjectFile(withRefs))
+    });
+    if (response.status === 412) {
+      const remote = await readConflict(response);
+      // The cached version is gone either way; overwriting recreates a deleted draft
+      etags.delete(record.id);
+      throw new SyncConflictError(remote, () => putDraft(record, remote ? null : undefined));
+    }
+    await expectOk(response);
+    const newTag = response.headers.get('ETag');
+    if (newTag) etags.set(record.id, newTag);
+    return withRefs;
+  };
+
+  // DELETE with optimistic locking; a draft that is already gone counts as deleted
+  const deleteDraft = async (id: string, etag: string | null) => {
+    const response = await request(`/drafts/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: etag ? { 'If-Match': etag } : {}
+    });
+    if (response.status === 412) throw new SyncConflictError(await readConflict(response));
+    if (response.status !== 404) await expectOk(response);
+    etags.delete(id);
+  };
+
+  // Sends drafts saved or deleted while offline. A draft that changed on the
+  // server in the meantime is uploaded as a separate copy instead of
+  // overwriting it, and is kept instead of being deleted.
+  const flushOutbox = async () => {
+    for (const entry of await getOutbox()) {
+      const done = async () => setOutbox((await getOutbox()).filter(e => e.id !== entry.id));
+      if (entry.deleted) {
+        try {
+          await deleteDraft(entry.id, entry.etag);
+          await done();
+        } catch (e) {
+          if (e instanceof OfflineError) throw e;
+          if (!(e instanceof SyncConflictError)) {
+            console.error(`Failed to delete draft ${entry.id} queued offline`, e); // Retried on the next list()
+            continue;
+          }
+          console.warn(`Draft ${entry.id} changed on the server after it was deleted offline; keeping it`);
+          await done();
+        }
+        continue;
+      }
+      if (!(await dbAPI.get(entry.id))) {
+        await done(); // Deleted again while offline
+        continue;
+      }
+      try {
+        const record = await fallback.load(entry.id);
+        try {
+          await putDraft(record, entry.etag ?? undefined);
+        } catch (e) {
+          if (!(e instanceof SyncConflictError)) throw e;
+          console.warn(`Offline edit of "${record.name}" conflicts with the server; uploading a copy`);
+          await putDraft({ ...record, id: `${Date.now()}-${entry.id}`, name: `${record.name}（离线副本）` }, undefined);
+        }
+        await fallback.delete([entry.id]);
+        await done();
+      } catch (e) {
+        if (e instanceof OfflineError) throw e;
+        console.error(`Failed to upload offline draft ${entry.id}`, e); // Retried on the next list()
+      }
+    }
+  };
+
+  return {
+    kind: 'remote',
+    get label() {
+      const host = baseUrl.replace(/^https?:\/\//, '');
+      return offline ? `${host}（离线）` : host;
+    },
+    supportsHistory: false,
+
+    list: () => withFallback(async () => {
+      await flushOutbox();
+      const response = await expectOk(await request('/drafts'));
+      const items: { etag: string; project: ProjectFile }[] = await response.json();
+      etags.clear();
+      const records: SavedRecord[] = [];
+      for (const item of items) {
+        try {
+          const record = readProjectFile(item.project);
+          etags.set(record.id, item.etag);
+          records.push(record);
+        } catch (e) {
+          console.warn('Skipped an unreadable draft from the sync server', e);
+        }
+      }
+      return records.sort((a, b) => b.timestamp - a.timestamp);
+    }, () => fallback.list()),
+
+    load: (id) => withFallback(async () => {
+      const response = await expectOk(await request(`/drafts/${encodeURIComponent(id)}`));
+      const etag = response.headers.get('ETag');
+      if (etag) etags.set(id, etag);
+      return downloadImages(readProjectFile(await response.json()));
+    }, () => fallback.load(id)),
+
+    save: (record) => withFallback(
+      () => putDraft(record, etags.get(record.id)),
+      async () => {
+        const stored = await fallback.save(record);
+        const outbox = await getOutbox();
+        const queued = outbox.find(e => e.id === record.id);
+        if (!queued) {
+          await setOutbox([...outbox, { id: record.id, etag: etags.get(record.id) ?? null }]);
+        } else if (queued.deleted) {
+          // Saved again after an offline delete: upload instead
+          await setOutbox(outbox.map(e => (e === queued ? { id: e.id, etag: e.etag } : e)));
+        }
+        return stored;
+      }
+    ),
+
+    // Applied to the latest server version; images stay as references
+    updateMeta: (id, meta) => withFallback(async () => {
+      const response = await expectOk(await request(`/drafts/${encodeURIComponent(id)}`));
+      const record = readProjectFile(await response.json());
+      await putDraft({ ...record, ...meta }, response.headers.get('ETag'));
+    }, () => fallback.updateMeta(id, meta)),
+
+    delete: (ids) => withFallback(async () => {
+      for (const id of ids) await deleteDraft(id, etags.get(id) ?? null);
+    }, async () => {
+      await fallback.delete(ids);
+      // Drafts on the server are deleted once it is reachable again; drafts
+      // created offline were never uploaded and just leave the queue
+      const outbox = await getOutbox();
+      const next = outbox.filter(e => !ids.includes(e.id));
+      ids.forEach(id => {
+        const queued = outbox.find(e => e.id === id);
+        const etag = etags.get(id) ?? queued?.etag ?? null;
+        if (etag !== null || !queued) next.push({ id, etag, deleted: true });
+      });
+      await setOutbox(next);
+    })
+  };
+};
@@ -0,0 +1,511 @@
+// --- Rich Text Formatting ---
+// The editor's toolbar works on a small document model instead of
+// document.execCommand: the editable DOM is parsed into blocks of styled
+// runs, the selection becomes character offsets into that model, a pure
+// operation rewrites the model, and the DOM is rendered back from it.
+// Rendering always produces the same flat markup (one <span style> per run,
+// <div> / <li> per block), which stays inside the sanitizer's allow-list and
+// renders identically in the preview and in exports.
+
+export interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: string;
+  highlight?: string; // Background color
+  fontSize?: string; // Relative to the surrounding text, e.g. "1.5em"
+}
+
+export type ToggleFormat = 'bold' | 'italic' | 'underline' | 'strikethrough';
+export type ValueFormat = 'color' | 'highlight' | 'fontSize';
+
+export interface TextRun {
+  text: string;
+  style: RunStyle;
+}
+
+export type BlockType = 'paragraph' | 'bullet' | 'ordered';
+
+export interface TextBlock {
+  type: BlockType;
+  lineHeight?: string; // Unitless multiplier
+  runs: TextRun[];
+}
+
+// Offsets into the document text; consecutive blocks are separated by one character
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A DOM position that maps to a document offset
+interface Leaf {
+  node: Node; // Text node, or the element standing in for an empty block
+  start: number;
+}
+
+export interface ParsedRichText {
+  blocks: TextBlock[];
+  leaves: Leaf[];
+}
+
+export const FONT_SIZES: { label: string; value?: string }[] = [
+  { label: '小', value: '0.875em' },
+  { label: '正文' },
+  { label: '大', value: '1.25em' },
+  { label: '较大', value: '1.5em' },
+  { label: '特大', value: '2em' }
+];
+
+export const LINE_HEIGHTS: { label: string; value?: string }[] = [
+  { label: '默认' },
+  { label: '1.2', value: '1.2' },
+  { label: '1.5', value: '1.5' },
+  { label: '1.8', value: '1.8' },
+  { label: '2.0', value: '2' }
+];
+
+// Tailwind's reset strips list markers; every place that shows rich text
+// (editor, preview, exports) adds them back with these classes
+export const RICH_TEXT_LIST_CLASSES = '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-[1.5em] [&_ol]:pl-[1.5em]';
+
+export const HIGHLIGHT_COLORS = ['#fef08a', '#bbf7d0', '#bfdbfe', '#fbcfe8', '#fed7aa'];
+
+const sameStyle = (a: RunStyle, b: RunStyle) =>
+  !!a.bold === !!b.bold &&
+  !!a.italic === !!b.italic &&
+  !!a.underline === !!b.underline &&
+  !!a.strikethrough === !!b.strikethrough &&
+  a.color === b.color &&
+  a.highlight === b.highlight &&
+  a.fontSize === b.fontSize;
+
+const blockLength = (block: TextBlock) => block.runs.reduce((sum, run) => sum + run.text.length, 0);
+
+const blockStarts = (blocks: TextBlock[]) => {
+  const starts: number[] = [];
+  let offset = 0;
+  blocks.forEach(block => {
+    starts.push(offset);
+    offset += blockLength(block) + 1;
+  });
+  return starts;
+};
+
+export const documentLength = (blocks: TextBlock[]) =>
+  Math.max(0, blocks.reduce((sum, block) => sum + blockLength(block) + 1, 0) - 1);
+
+const pushRun = (runs: TextRun[], text: string, style: RunStyle) => {
+  if (!text) return;
+  const last = runs[runs.length - 1];
+  if (last && sameStyle(last.style, style)) last.text += text;
+  else runs.push({ text, style: { ...style } });
+};
+
+// --- DOM -> model ---
+
+const BLOCK_TAGS = new Set(['div', 'p', 'li', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre']);
+
+const styleOf = (el: HTMLElement, inherited: RunStyle): RunStyle => {
+  const style = { ...inherited };
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'b' || tag === 'strong') style.bold = true;
+  if (tag === 'i' || tag === 'em') style.italic = true;
+  if (tag === 'u' || tag === 'ins') style.underline = true;
+  if (tag === 's' || tag === 'strike' || tag === 'del') style.strikethrough = true;
+
+  const css = el.style;
+  if (css.fontWeight) style.bold = css.fontWeight === 'bold' || css.fontWeight === 'bolder' || parseInt(css.fontWeight) >= 600;
+  if (css.fontStyle) style.italic = css.fontStyle === 'italic' || css.fontStyle === 'oblique';
+  const decoration = css.textDecorationLine || css.textDecoration;
+  if (decoration) {
+    // Decorations cannot be switched off by a descendant, only added
+    if (decoration.includes('underline')) style.underline = true;
+    if (decoration.includes('line-through')) style.strikethrough = true;
+  }
+  if (css.color) style.color = css.color;
+  if (css.backgroundColor) style.highlight = css.backgroundColor;
+  if (css.fontSize) style.fontSize = css.fontSize;
+  return style;
+};
+
+export const parseRichText = (root: HTMLElement): ParsedRichText => {
+  const blocks: TextBlock[] = [];
+  const leaves: { node: Node; block: number; offset: number }[] = [];
+  let current: TextBlock | null = null;
+  let trailingBreak = false; // A final <br> in a block only keeps the line open
+
+  const closeBlock = () => {
+    if (current && trailingBreak) {
+      const last = current.runs[current.runs.length - 1];
+      last.text = last.text.slice(0, -1);
+      if (!last.text) current.runs.pop();
+    }
+    current = null;
+    trailingBreak = false;
+  };
+  const openBlock = (type: BlockType, lineHeight?: string) => {
+    closeBlock();
+    current = { type, lineHeight, runs: [] };
+    blocks.push(current);
+    return current;
+  };
+  const ensureBlock = (type: BlockType, lineHeight?: string) => current || openBlock(type, lineHeight);
+
+  const walk = (node: Node, style: RunStyle, listType: BlockType, lineHeight?: string) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      if (!text) return;
+      const block = ensureBlock('paragraph', lineHeight);
+      leaves.push({ node, block: blocks.length - 1, offset: blockLength(block) });
+      pushRun(block.runs, text, style);
+      trailingBreak = false;
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as HTMLElement;
+    const tag = el.tagName.toLowerCase();
+
+    if (tag === 'br') {
+      const block = ensureBlock('paragraph', lineHeight);
+      leaves.push({ node: el, block: blocks.length - 1, offset: blockLength(block) });
+      pushRun(block.runs, '\n', style);
+      trailingBreak = true;
+      return;
+    }
+
+    const childStyle = styleOf(el, style);
+    if (!BLOCK_TAGS.has(tag)) {
+      el.childNodes.forEach(child => walk(child, childStyle, listType, lineHeight));
+      return;
+    }
+
+    const childLineHeight = el.style.lineHeight || lineHeight;
+    if (tag === 'ul' || tag === 'ol') {
+      closeBlock();
+      el.childNodes.forEach(child => walk(child, childStyle, tag === 'ul' ? 'bullet' : 'ordered', childLineHeight));
+      closeBlock();
+      return;
+    }
+    openBlock(tag === 'li' ? listType : 'paragraph', childLineHeight);
+    // An empty block still needs a place for the caret
+    leaves.push({ node: el, block: blocks.length - 1, offset: 0 });
+    el.childNodes.forEach(child => walk(child, childStyle, listType, childLineHeight));
+    closeBlock();
+  };
+
+  root.childNodes.forEach(child => walk(child, {}, 'paragraph'));
+  closeBlock();
+  if (!blocks.length) blocks.push({ type: 'paragraph', runs: [] });
+
+  const starts = blockStarts(blocks);
+  return {
+    blocks,
+    leaves: leaves.map(leaf => ({ node: leaf.node, start: starts[leaf.block] + leaf.offset }))
+  };
+};
+
+// --- Model -> DOM ---
+
+const runCss = (style: RunStyle) => {
+  const css: string[] = [];
+  if (style.bold) css.push('font-weight: bold');
+  if (style.italic) css.push('font-style: italic');
+  const lines = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+  if (lines.length) css.push(`text-decoration-line: ${lines.join(' ')}`);
+  if (style.color) css.push(`color: ${style.color}`);
+  if (style.highlight) css.push(`background-color: ${style.highlight}`);
+  if (style.fontSize) css.push(`font-size: ${style.fontSize}`);
+  return css.join('; ');
+};
+
+// Replaces the contents of root; returns the leaves used to place the selection
+export const renderRichText = (root: HTMLElement, blocks: TextBlock[]): Leaf[] => {
+  const leaves: Leaf[] = [];
+  const starts = blockStarts(blocks);
+  const fragment = document.createDocumentFragment();
+  let list: HTMLElement | null = null;
+
+  blocks.forEach((block, i) => {
+    let parent: Node = fragment;
+    let el: HTMLElement;
+    if (block.type === 'paragraph') {
+      list = null;
+      el = document.createElement('div');
+    } else {
+      const listTag = block.type === 'bullet' ? 'ul' : 'ol';
+      if (!list || list.tagName.toLowerCase() !== listTag) {
+        list = document.createElement(listTag);
+        fragment.appendChild(list);
+      }
+      parent = list;
+      el = document.createElement('li');
+    }
+    if (block.lineHeight) el.setAttribute('style', `line-height: ${block.lineHeight}`);
+
+    // A leading plain paragraph stays bare text, as it was typed
+    const bare = i === 0 && block.type === 'paragraph' && !block.lineHeight && blocks.length === 1;
+    const container: Node = bare ? parent : el;
+    if (!bare) parent.appendChild(el);
+
+    let offset = starts[i];
+    block.runs.forEach(run => {
+      const text = document.createTextNode(run.text);
+      leaves.push({ node: text, start: offset });
+      offset += run.text.length;
+      const css = runCss(run.style);
+      if (css) {
+        const span = document.createElement('span');
+        span.setAttribute('style', css);
+        span.appendChild(text);
+        container.appendChild(span);
+      } else {
+        container.appendChild(text);
+      }
+    });
+    if (!block.runs.length && !bare) {
+      el.appendChild(document.createElement('br'));
+      leaves.push({ node: el, start: starts[i] });
+    } else if (block.runs[block.runs.length - 1]?.text.endsWith('\n')) {
+      // A final line break only shows up with something after it
+      container.appendChild(document.createElement('br'));
+    }
+  });
+
+  root.replaceChildren(fragment);
+  return leaves;
+};
+
+// --- Selection <-> offsets ---
+
+const pointToOffset = (root: HTMLElement, leaves: Leaf[], node: Node, offset: number): number => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const leaf = leaves.find(l => l.node === node);
+    if (leaf) return leaf.start + offset;
+  }
+  // Element position: the first leaf at or after the point
+  const point = document.createRange();
+  point.setStart(node, offset);
+  const next = leaves.find(l => point.comparePoint(l.node, 0) >= 0);
+  if (next) return next.start;
+  const last = leaves[leaves.length - 1];
+  return last ? last.start + (last.node.nodeType === Node.TEXT_NODE ? (last.node.textContent || '').length : 0) : 0;
+};
+
+// Selection inside root as document offsets, or null when it is elsewhere
+export const readSelection = (root: HTMLElement, leaves: Leaf[]): TextRange | null => {
+  const selection = window.getSelection();
+  if (!selection || !selection.rangeCount) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+  const start = pointToOffset(root, leaves, range.startContainer, range.startOffset);
+  const end = pointToOffset(root, leaves, range.endContainer, range.endOffset);
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+};
+
+const offsetToPoint = (root: HTMLElement, leaves: Leaf[], offset: number, preferNext: boolean): [Node, number] => {
+  let match: [Node, number] | null = null;
+  for (const leaf of leaves) {
+    if (leaf.node.nodeType !== Node.TEXT_NODE) {
+      if (leaf.start === offset) return [leaf.node, 0];
+      continue;
+    }
+    const length = (leaf.node.textContent || '').length;
+    if (offset < leaf.start || offset > leaf.start + length) continue;
+    match = [leaf.node, offset - leaf.start];
+    // At the seam between two runs, the start of a range belongs to the next one
+    if (!preferNext || offset < leaf.start + length) break;
+  }
+  return match || [root, root.childNodes.length];
+};
+
+export const writeSelection = (root: HTMLElement, leaves: Leaf[], range: TextRange) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const dom = document.createRange();
+  dom.setStart(...offsetToPoint(root, leaves, range.start, range.start !== range.end));
+  dom.setEnd(...offsetToPoint(root, leaves, range.end, false));
+  selection.removeAllRanges();
+  selection.addRange(dom);
+};
+
+// --- Operations ---
+
+// Calls fn for every block the range touches, with the range clipped to the block
+const forEachBlockInRange = (blocks: TextBlock[], range: TextRange, fn: (block: TextBlock, from: number, to: number) => void) => {
+  const starts = blockStarts(blocks);
+  blocks.forEach((block, i) => {
+    const length = blockLength(block);
+    const from = Math.max(0, range.start - starts[i]);
+    const to = Math.min(length, range.end - starts[i]);
+    // A collapsed range still selects its block
+    if (range.start <= starts[i] + length && range.end >= starts[i] && (from < to || range.start === range.end || length === 0)) {
+      fn(block, from, to);
+    }
+  });
+};
+
+// Runs fully inside [from, to), splitting the ones that straddle the edges
+const runsBetween = (block: TextBlock, from: number, to: number): TextRun[] => {
+  const next: TextRun[] = [];
+  const inside: TextRun[] = [];
+  let offset = 0;
+  block.runs.forEach(run => {
+    const end = offset + run.text.length;
+    const cuts = [from, to].filter(c => c > offset && c < end).map(c => c - offset);
+    let pieceStart = 0;
+    [...cuts, run.text.length].forEach(cut => {
+      const piece = { text: run.text.slice(pieceStart, cut), style: { ...run.style } };
+      const absolute = offset + pieceStart;
+      next.push(piece);
+      if (absolute >= from && absolute < to) inside.push(piece);
+      pieceStart = cut;
+    });
+    offset = end;
+  });
+  block.runs = next;
+  return inside;
+};
+
+const mergeRuns = (block: TextBlock) => {
+  const merged: TextRun[] = [];
+  block.runs.forEach(run => pushRun(merged, run.text, run.style));
+  block.runs = merged;
+};
+
+const cloneBlocks = (blocks: TextBlock[]): TextBlock[] =>
+  blocks.map(block => ({ ...block, runs: block.runs.map(run => ({ text: run.text, style: { ...run.style } })) }));
+
+const selectedRuns = (blocks: TextBlock[], range: TextRange): TextRun[] => {
+  const runs: TextRun[] = [];
+  forEachBlockInRange(cloneBlocks(blocks), range, (block, from, to) => runs.push(...runsBetween(block, from, to)));
+  return runs.filter(run => run.text.trim());
+};
+
+// Style at the caret: the character before it, or the one after at a block start
+const styleAtCaret = (blocks: TextBlock[], offset: number): RunStyle => {
+  let style: RunStyle = {};
+  forEachBlockInRange(blocks, { start: offset, end: offset }, (block, from) => {
+    let position = 0;
+    for (const run of block.runs) {
+      position += run.text.length;
+      if (position >= from) {
+        style = run.style;
+        break;
+      }
+    }
+  });
+  return style;
+};
+
+export const isFormatActive = (blocks: TextBlock[], range: TextRange, format: ToggleFormat): boolean => {
+  if (range.start === range.end) return !!styleAtCaret(blocks, range.start)[format];
+  const runs = selectedRuns(blocks, range);
+  return runs.length > 0 && runs.every(run => run.style[format]);
+};
+
+// Value shared by the whole selection, undefined when mixed or unset
+export const getFormatValue = (blocks: TextBlock[], range: TextRange, format: ValueFormat): string | undefined => {
+  if (range.start === range.end) return styleAtCaret(blocks, range.start)[format];
+  const values = new Set(selectedRuns(blocks, range).map(run => run.style[format]));
+  return values.size === 1 ? values.values().next().value : undefined;
+};
+
+export const getBlockType = (blocks: TextBlock[], range: TextRange): BlockType | null => {
+  const types = new Set<BlockType>();
+  forEachBlockInRange(blocks, range, block => types.add(block.type));
+  return types.size === 1 ? types.values().next().value as BlockType : null;
+};
+
+export const getLineHeight = (blocks: TextBlock[], range: TextRange): string | undefined => {
+  const values = new Set<string | undefined>();
+  forEachBlockInRange(blocks, range, block => values.add(block.lineHeight));
+  return values.size === 1 ? values.values().next().value : undefined;
+};
+
+const updateRuns = (blocks: TextBlock[], range: TextRange, update: (style: RunStyle) => void): TextBlock[] => {
+  const next = cloneBlocks(blocks);
+  if (range.start === range.end) return next;
+  forEachBlockInRange(next, range, (block, from, to) => {
+    runsBetween(block, from, to).forEach(run => update(run.style));
+    mergeRuns(block);
+  });
+  return next;
+};
+
+export const toggleFormat = (blocks: TextBlock[], range: TextRange, format: ToggleFormat): TextBlock[] => {
+  const enable = !isFormatActive(blocks, range, format);
+  return updateRuns(blocks, range, style => {
+    if (enable) style[format] = true;
+    else delete style[format];
+  });
+};
+
+// undefined clears the format
+export const setFormatValue = (blocks: TextBlock[], range: TextRange, format: ValueFormat, value?: string): TextBlock[] =>
+  updateRuns(blocks, range, style => {
+    if (value) style[format] = value;
+    else delete style[format];
+  });
+
+// Turns the touched blocks into list items of the given kind, or back into
+// paragraphs when they already are
+export const toggleList = (blocks: TextBlock[], range: TextRange, type: 'bullet' | 'ordered'): TextBlock[] => {
+  const next = cloneBlocks(blocks);
+  const target = getBlockType(blocks, range) === type ? 'paragraph' : type;
+  forEachBlockInRange(next, range, block => { block.type = target; });
+  return next;
+};
+
+export const setLineHeight = (blocks: TextBlock[], range: TextRange, value?: string): TextBlock[] => {
+  const next = cloneBlocks(blocks);
+  forEachBlockInRange(next, range, block => {
+    if (value) block.lineHeight = value;
+    else delete block.lineHeight;
+  });
+  return next;
+};
+
+// --- Editing helpers ---
+
+export type FormatOperation = (blocks: TextBlock[], range: TextRange) => TextBlock[];
+
+// Runs an operation on the live editor: parse, apply at the current selection
+// (or the fallback when the selection has left the editor), render, and put
+// the selection back. Returns the new model, or null when there was no range.
+export const formatSelection = (
+  root: HTMLElement,
+  operation: FormatOperation,
+  fallback: TextRange | null = null
+): { blocks: TextBlock[]; range: TextRange } | null => {
+  const { blocks, leaves } = parseRichText(root);
+  const range = readSelection(root, leaves) || fallback;
+  if (!range) return null;
+  const next = operation(blocks, range);
+  root.focus();
+  writeSelection(root, renderRichText(root, next), range);
+  return { blocks: next, range };
+};
+
+// Replaces the selection inside root with already sanitized HTML and puts
+// the caret after it. Returns false when the selection is elsewhere.
+export const insertHtmlAtSelection = (root: HTMLElement, html: string): boolean => {
+  const selection = window.getSelection();
+  if (!selection || !selection.rangeCount || !root.contains(selection.anchorNode)) return false;
+  const range = selection.getRangeAt(0);
+  range.deleteContents();
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const lastNode = template.content.lastChild;
+  range.insertNode(template.content);
+
+  if (lastNode) {
+    range.setStartAfter(lastNode);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+  return true;
+};
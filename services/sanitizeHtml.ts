@@ -0,0 +1,207 @@
+// --- Rich Text Sanitizer ---
+// Rich text fields (detail values, marketing copy, text blocks) are stored as
+// HTML and rendered with dangerouslySetInnerHTML. Everything that reaches the
+// DOM passes through an allow-list: only the formatting the editor can produce
+// survives, every other element is unwrapped (or dropped with its content),
+// and all attributes except whitelisted inline styles are removed.
+
+// Kept as they are, minus disallowed attributes
+const ALLOWED_TAGS = new Set(['b', 'i', 'u', 's', 'br', 'div', 'span', 'ul', 'ol', 'li']);
+
+// Normalized to an allowed equivalent
+const TAG_ALIASES: Record<string, string> = {
+  strong: 'b',
+  em: 'i',
+  ins: 'u',
+  del: 's',
+  strike: 's',
+  p: 'div',
+  h1: 'div', h2: 'div', h3: 'div', h4: 'div', h5: 'div', h6: 'div',
+  blockquote: 'div',
+  pre: 'div',
+  tr: 'div',
+  section: 'div',
+  article: 'div',
+  header: 'div',
+  footer: 'div'
+};
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'template', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'head', 'title', 'meta', 'link', 'base', 'svg', 'math', 'img', 'picture', 'video', 'audio', 'source', 'track',
+  'canvas', 'map', 'form', 'input', 'button', 'select', 'option', 'textarea', 'xml'
+]);
+
+const COLOR_KEYWORDS_BLOCKED = new Set(['inherit', 'initial', 'unset', 'revert', 'currentcolor', 'windowtext', 'transparent']);
+
+const normalizeColor = (value: string): string | null => {
+  const v = value.trim().toLowerCase();
+  if (/^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(v)) return v;
+  if (/^rgba?\(\s*[\d.]+%?\s*,\s*[\d.]+%?\s*,\s*[\d.]+%?\s*(,\s*[\d.]+%?\s*)?\)$/.test(v)) return v;
+  if (/^[a-z]{3,20}$/.test(v) && !COLOR_KEYWORDS_BLOCKED.has(v)) return v;
+  return null;
+};
+
+const normalizeFontWeight = (value: string): string | null => {
+  const v = value.trim().toLowerCase();
+  return v === 'bold' || v === 'bolder' || (/^\d+$/.test(v) && parseInt(v) >= 600) ? 'bold' : null;
+};
+
+const normalizeFontStyle = (value: string): string | null =>
+  /^(italic|oblique)/.test(value.trim().toLowerCase()) ? 'italic' : null;
+
+const normalizeDecoration = (value: string): string | null => {
+  const v = value.toLowerCase();
+  const lines = ['underline', 'line-through'].filter(line => v.includes(line));
+  return lines.length ? lines.join(' ') : null;
+};
+
+// Only relative sizes: the poster's typography decides the base size
+const normalizeFontSize = (value: string): string | null => {
+  const match = value.trim().toLowerCase().match(/^(\d*\.?\d+)em$/);
+  const size = match ? parseFloat(match[1]) : NaN;
+  return size >= 0.5 && size <= 3 ? `${size}em` : null;
+};
+
+const normalizeLineHeight = (value: string): string | null => {
+  const v = value.trim();
+  const height = /^\d*\.?\d+$/.test(v) ? parseFloat(v) : NaN;
+  return height >= 1 && height <= 3 ? String(height) : null;
+};
+
+// Inline style properties that survive, with their value normalizers
+const ALLOWED_STYLES: Record<string, (value: string) => string | null> = {
+  color: normalizeColor,
+  'background-color': normalizeColor,
+  'font-weight': normalizeFontWeight,
+  'font-style': normalizeFontStyle,
+  'text-decoration-line': normalizeDecoration,
+  'font-size': normalizeFontSize,
+  'line-height': normalizeLineHeight
+};
+
+// Shorthands folded into the longhand above
+const STYLE_ALIASES: Record<string, string> = {
+  background: 'background-color',
+  'text-decoration': 'text-decoration-line'
+};
+
+const filterStyle = (style: string): string => {
+  const kept: string[] = [];
+  style.split(';').forEach(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon < 0) return;
+    const name = declaration.slice(0, colon).trim().toLowerCase();
+    const property = STYLE_ALIASES[name] || name;
+    const normalize = ALLOWED_STYLES[property];
+    const value = normalize?.(declaration.slice(colon + 1).replace(/!important/i, ''));
+    if (value) kept.push(`${property}: ${value}`);
+  });
+  return kept.join('; ');
+};
+
+const unwrap = (el: Element) => {
+  el.replaceWith(...Array.from(el.childNodes));
+};
+
+const rename = (el: Element, tag: string): Element => {
+  const next = el.ownerDocument.createElement(tag);
+  const style = el.getAttribute('style');
+  if (style) next.setAttribute('style', style);
+  next.append(...Array.from(el.childNodes));
+  el.replaceWith(next);
+  return next;
+};
+
+interface SanitizeOptions {
+  // Source HTML uses normal white-space rules (clipboard), while our fields
+  // render with pre-wrap: collapse runs of whitespace and drop the
+  // indentation between tags so it does not turn into blank lines
+  collapseWhitespace?: boolean;
+}
+
+const cleanNode = (node: Node, options: SanitizeOptions) => {
+  // Children first; the list is copied because cleaning rewrites it
+  Array.from(node.childNodes).forEach(child => cleanNode(child, options));
+  if (node.nodeType === Node.TEXT_NODE) {
+    if (options.collapseWhitespace) {
+      const text = node.textContent || '';
+      if (/^[\t\n\r ]*$/.test(text) && /[\n\r]/.test(text)) node.parentNode?.removeChild(node);
+      else node.textContent = text.replace(/[\t\n\r ]+/g, ' ');
+    }
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    node.parentNode?.removeChild(node); // Comments (Word's conditional ones included), processing instructions
+    return;
+  }
+
+  let el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) {
+    el.remove();
+    return;
+  }
+  const target = TAG_ALIASES[tag] || tag;
+  if (!ALLOWED_TAGS.has(target)) {
+    unwrap(el);
+    return;
+  }
+  const originalStyle = el.getAttribute('style') || '';
+  // Google Docs wraps whole pastes in <b style="font-weight:normal">
+  if (target === 'b' && /font-weight\s*:\s*(normal|[1-5]00)/i.test(originalStyle)) {
+    unwrap(el);
+    return;
+  }
+  if (target !== tag) el = rename(el, target);
+
+  const style = filterStyle(originalStyle);
+  Array.from(el.attributes).forEach(attr => el.removeAttribute(attr.name));
+  if (style) el.setAttribute('style', style);
+
+  // A span without styling carries nothing
+  if (target === 'span' && !style) unwrap(el);
+};
+
+const sanitize = (html: string, options: SanitizeOptions): string => {
+  // <template> content is inert: nothing runs or loads while we inspect it
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const root = template.content;
+  Array.from(root.childNodes).forEach(child => cleanNode(child, options));
+  const container = document.createElement('div');
+  container.append(root);
+  return container.innerHTML;
+};
+
+// Render-time calls see the same few strings over and over
+const cache = new Map<string, string>();
+const CACHE_LIMIT = 500;
+
+export const sanitizeRichText = (html: string | null | undefined): string => {
+  if (!html) return '';
+  // Plain text has nothing to strip
+  if (!/[<&]/.test(html)) return html;
+  const cached = cache.get(html);
+  if (cached !== undefined) return cached;
+
+  const clean = sanitize(html, {});
+  if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value as string);
+  cache.set(html, clean);
+  return clean;
+};
+
+// Clipboard HTML from Word, web pages, Google Docs...
+export const sanitizePastedHtml = (html: string): string => {
+  // Word and browsers wrap the fragment in a full document with StartFragment markers
+  const fragment = html.match(/<!--StartFragment-->([\s\S]*)<!--EndFragment-->/);
+  return sanitize(fragment ? fragment[1] : html, { collapseWhitespace: true }).trim();
+};
+
+export const plainTextToHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r\n?/g, '\n');
@@ -0,0 +1,144 @@
+import JSZip from 'jszip';
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: string[][]; // rows[i] is sheet row i + 2, padded to headers.length
+}
+
+// --- CSV ---
+
+// Excel on Chinese Windows saves CSV as GBK; try strict UTF-8 first
+const decodeText = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gbk').decode(buffer);
+  }
+};
+
+// RFC 4180 parser: quoted fields, escaped quotes, newlines inside quotes.
+// Tab-separated files (pasted from a spreadsheet) are detected automatically
+// unless the delimiter is given.
+export const parseCsv = (text: string, forcedDelimiter?: '\t' | ','): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = forcedDelimiter ?? (firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// --- XLSX ---
+// An .xlsx file is a zip of XML parts; only the first worksheet is read.
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const byTag = (parent: Document | Element, tag: string) => Array.from(parent.getElementsByTagNameNS('*', tag));
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+/g, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const zip = await JSZip.loadAsync(buffer);
+
+  // Resolve the first sheet through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbookXml = await zip.file('xl/workbook.xml')?.async('string');
+  const relsXml = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+  if (workbookXml && relsXml) {
+    const firstSheet = byTag(parseXml(workbookXml), 'sheet')[0];
+    const relId = firstSheet?.getAttribute('r:id') || firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const rel = byTag(parseXml(relsXml), 'Relationship').find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+  }
+
+  const sheetXml = await zip.file(sheetPath)?.async('string');
+  if (!sheetXml) throw new Error('未找到工作表，请确认文件是有效的 .xlsx');
+
+  const sharedXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+  const sharedStrings = sharedXml
+    ? byTag(parseXml(sharedXml), 'si').map(si => byTag(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const rows: string[][] = [];
+  byTag(parseXml(sheetXml), 'row').forEach(rowEl => {
+    const rowNumber = parseInt(rowEl.getAttribute('r') || '', 10) || rows.length + 1;
+    const cells: string[] = [];
+    byTag(rowEl, 'c').forEach((cell, i) => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : i;
+      const type = cell.getAttribute('t');
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[parseInt(byTag(cell, 'v')[0]?.textContent || '0', 10)] || '';
+      } else if (type === 'inlineStr') {
+        value = byTag(cell, 't').map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        value = byTag(cell, 'v')[0]?.textContent === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = byTag(cell, 'v')[0]?.textContent || '';
+      }
+      cells[col] = value;
+    });
+    // Keep sheet row positions so reported row numbers match Excel
+    rows[rowNumber - 1] = Array.from(cells, v => v ?? '');
+  });
+  return Array.from(rows, r => r ?? []);
+};
+
+// --- Entry Point ---
+
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetTable> => {
+  const buffer = await file.arrayBuffer();
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const grid = isXlsx ? await parseXlsx(buffer) : parseCsv(decodeText(buffer));
+
+  const [headerRow = [], ...dataRows] = grid;
+  const headers = headerRow.map(h => h.trim());
+  if (headers.every(h => !h)) throw new Error('第一行需要是表头');
+
+  const rows = dataRows.map(row => headers.map((_, i) => (row[i] ?? '').trim()));
+  return { headers, rows };
+};
@@ -0,0 +1,136 @@
+import { SavedRecord } from '../types';
+import { dbAPI } from './db';
+import { storeRecordImages, resolveRecordImages, collectGarbageAssets, withAssetLock } from './draftAssets';
+import { snapshotDraft, deleteDraftSnapshots } from './draftHistory';
+import { upgradeRecord } from './projectFormat';
+import { createFolderProvider, FolderHandle, isFolderStorageSupported, ensureFolderPermission } from './folderStorage';
+import { createRemoteProvider, RemoteConfig } from './remoteStorage';
+
+// --- Storage Providers ---
+// Where named drafts live. The draft library, save, load and delete flows go
+// through the active provider; the working session, version history and
+// full backups always stay in IndexedDB.
+
+export type StorageProviderKind = 'indexeddb' | 'folder' | 'remote';
+
+export type DraftMeta = Pick<SavedRecord, 'tags' | 'folder'>;
+
+export interface StorageProvider {
+  kind: StorageProviderKind;
+  label: string;
+  // Version snapshots and full backups are only kept by the IndexedDB provider
+  supportsHistory: boolean;
+  // Newest first. Images may still be provider references; thumbnails are inline.
+  list(): Promise<SavedRecord[]>;
+  // Editor-ready copy of a listed draft, with displayable image URLs
+  load(id: string): Promise<SavedRecord>;
+  // Writes a draft built from the editor and returns it as list() would
+  save(record: SavedRecord): Promise<SavedRecord>;
+  // Library metadata only: no new version, images untouched
+  updateMeta(id: string, meta: DraftMeta): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export const indexedDbProvider: StorageProvider = {
+  kind: 'indexeddb',
+  label: '浏览器存储',
+  supportsHistory: true,
+
+  list: () => dbAPI.getAll(),
+
+  load: async (id) => {
+    const stored = await dbAPI.get(id);
+    if (!stored) throw new Error('草稿不存在或已被删除');
+    return resolveRecordImages(upgradeRecord(stored));
+  },
+
+  save: async (record) => {
+    const stored = await withAssetLock(async () => {
+      // Images go to the shared assets store once; the draft keeps references
+      const withRefs = await storeRecordImages(record);
+      // Keep the version being overwritten in the draft's history
+      const previous = await dbAPI.get(record.id);
+      if (previous) await snapshotDraft(previous);
+      await dbAPI.add(withRefs);
+      return withRefs;
+    });
+    // Images dropped from the previous version of this draft
+    collectGarbageAssets().catch(e => console.error("Asset cleanup failed", e));
+    return stored;
+  },
+
+  updateMeta: async (id, meta) => {
+    const stored = await dbAPI.get(id);
+    if (stored) await dbAPI.add({ ...stored, ...meta });
+  },
+
+  delete: async (ids) => {
+    for (const id of ids) {
+      await dbAPI.delete(id);
+      await deleteDraftSnapshots(id);
+    }
+    // Free images no other draft uses
+    await collectGarbageAssets();
+  }
+};
+
+// --- Provider Selection ---
+// The choice, the picked folder handle and the sync server address are
+// remembered in the meta store. Browsers forget folder permission between
+// visits, so a remembered folder is only reopened when permission is still
+// granted; otherwise the user has to reconnect it with a click.
+
+const PROVIDER_KEY = 'storageProvider';
+const FOLDER_HANDLE_KEY = 'storageFolder';
+const REMOTE_CONFIG_KEY = 'storageRemote';
+
+export { isFolderStorageSupported };
+
+export const getRememberedFolder = async (): Promise<FolderHandle | undefined> =>
+  isFolderStorageSupported ? dbAPI.getMeta<FolderHandle>(FOLDER_HANDLE_KEY) : undefined;
+
+export const getRemoteConfig = (): Promise<RemoteConfig | undefined> => dbAPI.getMeta<RemoteConfig>(REMOTE_CONFIG_KEY);
+
+export const setRemoteConfig = (config: RemoteConfig): Promise<void> => dbAPI.setMeta(REMOTE_CONFIG_KEY, config);
+
+export const loadStorageProvider = async (): Promise<StorageProvider> => {
+  const kind = await dbAPI.getMeta<StorageProviderKind>(PROVIDER_KEY);
+  if (kind === 'remote') {
+    const config = await getRemoteConfig();
+    return config ? createRemoteProvider(config, indexedDbProvider) : indexedDbProvider;
+  }
+  if (kind !== 'folder') return indexedDbProvider;
+
+  const folder = await getRememberedFolder();
+  if (folder && (await folder.queryPermission({ mode: 'readwrite' })) === 'granted') {
+    return createFolderProvider(folder);
+  }
+  return indexedDbProvider;
+};
+
+// Must run from a click: it may show the folder picker or a permission prompt.
+// `pickNew` forces the picker even when a folder is remembered. The sync
+// server address is stored with setRemoteConfig() beforehand.
+export const selectStorageProvider = async (kind: StorageProviderKind, pickNew = false): Promise<StorageProvider> => {
+  if (kind === 'indexeddb') {
+    await dbAPI.setMeta(PROVIDER_KEY, kind);
+    return indexedDbProvider;
+  }
+  if (kind === 'remote') {
+    const config = await getRemoteConfig();
+    if (!config) throw new Error('请先填写同步服务器地址');
+    await dbAPI.setMeta(PROVIDER_KEY, kind);
+    return createRemoteProvider(config, indexedDbProvider);
+  }
+
+  let folder = pickNew ? undefined : await getRememberedFolder();
+  if (folder) {
+    await ensureFolderPermission(folder);
+  } else {
+    if (!window.showDirectoryPicker) throw new Error('当前浏览器不支持访问本地文件夹，请使用最新版 Chrome 或 Edge');
+    folder = await window.showDirectoryPicker({ id: 'poster-projects', mode: 'readwrite' }) as FolderHandle;
+    await dbAPI.setMeta(FOLDER_HANDLE_KEY, folder);
+  }
+  await dbAPI.setMeta(PROVIDER_KEY, kind);
+  return createFolderProvider(folder);
+};
@@ -0,0 +1,187 @@
+import { dbAPI, StoredAsset } from './db';
+import { collectAssetRefs, collectGarbageAssets, remapAssets, withAssetLock } from './draftAssets';
+import { hashBlob } from './projectBundle';
+import { canvasToBlob } from './exportService';
+
+// --- Browser Storage Usage ---
+// Everything here measures and cleans the IndexedDB library, whichever
+// storage provider is active for named drafts.
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+export interface DraftUsage {
+  id: string;
+  name: string;
+  timestamp: number;
+  recordBytes: number; // Draft JSON, including its inline thumbnail
+  imageBytes: number; // Every image the draft uses, shared ones included
+  snapshotCount: number;
+  snapshotBytes: number; // Snapshot JSON plus images only the snapshots use
+}
+
+export interface AssetUsage {
+  asset: StoredAsset;
+  usedBy: string[]; // Draft names; snapshots count for their draft
+}
+
+export interface StorageReport {
+  drafts: DraftUsage[]; // Largest first
+  assets: AssetUsage[]; // Largest first
+  assetBytes: number;
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+// Browsers report quota errors under different names
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+};
+
+// Persistent storage is exempt from automatic eviction when the disk runs low.
+// Browsers may grant or deny it silently; the result is what they decided.
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
+
+const jsonBytes = (value: unknown) => new Blob([JSON.stringify(value)]).size;
+
+export const measureStorage = async (): Promise<StorageReport> => {
+  const [records, snapshots, assets] = await Promise.all([dbAPI.getAll(), dbAPI.getSnapshots(), dbAPI.getAllAssets()]);
+  const sizes = new Map(assets.map(a => [a.hash, a.size]));
+  const sumSizes = (hashes: Iterable<string>) => Array.from(hashes).reduce((sum, hash) => sum + (sizes.get(hash) || 0), 0);
+  const usedBy = new Map<string, Set<string>>();
+  const use = (hash: string, name: string) => {
+    if (!usedBy.has(hash)) usedBy.set(hash, new Set());
+    usedBy.get(hash)!.add(name);
+  };
+
+  const drafts: DraftUsage[] = [];
+  for (const record of records) {
+    const hashes = await collectAssetRefs(record);
+    hashes.forEach(hash => use(hash, record.name));
+
+    const own = snapshots.filter(s => s.draftId === record.id);
+    const snapshotHashes = new Set<string>();
+    for (const snapshot of own) await collectAssetRefs(snapshot.record, snapshotHashes);
+    snapshotHashes.forEach(hash => use(hash, record.name));
+    hashes.forEach(hash => snapshotHashes.delete(hash));
+
+    drafts.push({
+      id: record.id,
+      name: record.name,
+      timestamp: record.timestamp,
+      recordBytes: jsonBytes(record),
+      imageBytes: sumSizes(hashes),
+      snapshotCount: own.length,
+      snapshotBytes: own.reduce((sum, s) => sum + jsonBytes(s), 0) + sumSizes(snapshotHashes)
+    });
+  }
+
+  const total = (d: DraftUsage) => d.recordBytes + d.imageBytes + d.snapshotBytes;
+  return {
+    drafts: drafts.sort((a, b) => total(b) - total(a)),
+    assets: assets
+      .map(asset => ({ asset, usedBy: Array.from(usedBy.get(asset.hash) || []) }))
+      .sort((a, b) => b.asset.size - a.asset.size),
+    assetBytes: sumSizes(sizes.keys())
+  };
+};
+
+// --- Cleanup ---
+
+const cutoff = (days: number) => Date.now() - days * 24 * 60 * 60 * 1000;
+
+// Returns how many snapshots were deleted
+export const deleteSnapshotsOlderThan = async (days: number): Promise<number> => {
+  const old = (await dbAPI.getSnapshots()).filter(s => s.savedAt < cutoff(days));
+  await dbAPI.deleteSnapshots(old.map(s => s.id));
+  await collectGarbageAssets();
+  return old.length;
+};
+
+// Returns the ids of the drafts to delete; deleting goes through the
+// IndexedDB provider so their history and images are freed as well
+export const findDraftsOlderThan = async (days: number): Promise<string[]> =>
+  (await dbAPI.getAll()).filter(r => r.timestamp < cutoff(days)).map(r => r.id);
+
+export interface RecompressOptions {
+  maxWidth: number;
+  quality: number;
+  minBytes: number; // Only images at least this large are recompressed (and downscaled to maxWidth)
+}
+
+export const DEFAULT_RECOMPRESS_OPTIONS: RecompressOptions = { maxWidth: 1500, quality: 0.8, minBytes: 300 * 1024 };
+
+// Re-encodes large images: JPEG stays JPEG, PNG / WebP become WebP so
+// transparency survives. Results that are not clearly smaller are discarded.
+const recompressBlob = async (blob: Blob, options: RecompressOptions): Promise<Blob | null> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, options.maxWidth / bitmap.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const mime = blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+    const result = await canvasToBlob(canvas, mime, options.quality);
+    // No WebP encoder (older Safari) falls back to PNG, which would lose the point
+    if (result.type !== mime || result.size > blob.size * 0.9) return null;
+    return result;
+  } finally {
+    bitmap.close();
+  }
+};
+
+const RECOMPRESSIBLE = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+export const recompressImages = async (
+  options: RecompressOptions = DEFAULT_RECOMPRESS_OPTIONS,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ count: number; savedBytes: number }> => {
+  const candidates = (await dbAPI.getAllAssets())
+    .filter(a => a.size >= options.minBytes && RECOMPRESSIBLE.has(a.blob.type));
+
+  const mapping = new Map<string, string>();
+  const replacements: StoredAsset[] = [];
+  let savedBytes = 0;
+  for (const [i, asset] of candidates.entries()) {
+    onProgress?.(i, candidates.length);
+    try {
+      const blob = await recompressBlob(asset.blob, options);
+      if (!blob) continue;
+      const hash = await hashBlob(blob);
+      mapping.set(asset.hash, hash);
+      replacements.push({ hash, blob, size: blob.size, createdAt: Date.now() });
+      savedBytes += asset.size - blob.size;
+    } catch (e) {
+      console.warn(`Image ${asset.hash} could not be recompressed`, e);
+    }
+  }
+  onProgress?.(candidates.length, candidates.length);
+
+  // New assets first, so no record ever points at a missing image
+  await withAssetLock(async () => {
+    await dbAPI.putAssets(replacements);
+    await remapAssets(mapping);
+  });
+  await collectGarbageAssets();
+  return { count: mapping.size, savedBytes };
+};
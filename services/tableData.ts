@@ -0,0 +1,213 @@
+import { TableAlign, TableCell, TableData } from '../types';
+import { parseCsv } from './spreadsheet';
+
+// --- Table Blocks ---
+// Pure helpers for the table content block. A table is a rectangular grid;
+// a merged area is stored as spans on its top-left cell, and the cells it
+// covers keep their (empty) slot so row and column indexes never shift.
+// Cell text is a single line of plain text.
+
+export const MAX_TABLE_ROWS = 60;
+export const MAX_TABLE_COLUMNS = 10;
+
+// Inclusive cell coordinates
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+const emptyCell = (): TableCell => ({ text: '' });
+
+export const createTable = (rows: number = 3, columns: number = 3): TableData => ({
+  rows: Array.from({ length: rows }, () => Array.from({ length: columns }, emptyCell)),
+  columnAligns: Array(columns).fill('center'),
+  headerRow: true,
+  striped: true
+});
+
+export const columnCount = (table: TableData) => table.columnAligns.length;
+
+const cloneRows = (table: TableData) => table.rows.map(row => row.map(cell => ({ ...cell })));
+
+const spanOf = (cell: TableCell) => ({ rows: cell.rowSpan || 1, cols: cell.colSpan || 1 });
+
+export const rangeOfCell = (table: TableData, row: number, col: number): CellRange => {
+  const span = spanOf(table.rows[row][col]);
+  return { top: row, left: col, bottom: row + span.rows - 1, right: col + span.cols - 1 };
+};
+
+// "row:col" keys of cells hidden under a merged cell
+export const coveredCells = (table: TableData): Set<string> => {
+  const covered = new Set<string>();
+  table.rows.forEach((row, r) => row.forEach((cell, c) => {
+    const span = spanOf(cell);
+    for (let i = r; i < r + span.rows; i++) {
+      for (let j = c; j < c + span.cols; j++) {
+        if (i !== r || j !== c) covered.add(`${i}:${j}`);
+      }
+    }
+  }));
+  return covered;
+};
+
+export const isMerged = (cell: TableCell) => (cell.rowSpan || 1) > 1 || (cell.colSpan || 1) > 1;
+
+const overlaps = (a: CellRange, b: CellRange) =>
+  a.left <= b.right && b.left <= a.right && a.top <= b.bottom && b.top <= a.bottom;
+
+// Grows a range until no merged area sticks out of it
+const expandToMerges = (table: TableData, range: CellRange): CellRange => {
+  let current = { ...range };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    table.rows.forEach((row, r) => row.forEach((cell, c) => {
+      if (!isMerged(cell)) return;
+      const area = rangeOfCell(table, r, c);
+      if (!overlaps(area, current)) return;
+      const next = {
+        top: Math.min(current.top, area.top),
+        left: Math.min(current.left, area.left),
+        bottom: Math.max(current.bottom, area.bottom),
+        right: Math.max(current.right, area.right)
+      };
+      if (next.top !== current.top || next.left !== current.left || next.bottom !== current.bottom || next.right !== current.right) {
+        current = next;
+        changed = true;
+      }
+    }));
+  }
+  return current;
+};
+
+// The top-left cell keeps the text of every merged cell, separated by spaces
+export const mergeCells = (table: TableData, range: CellRange): TableData => {
+  const area = expandToMerges(table, range);
+  const rows = cloneRows(table);
+  const texts: string[] = [];
+  for (let r = area.top; r <= area.bottom; r++) {
+    for (let c = area.left; c <= area.right; c++) {
+      const cell = rows[r][c];
+      if (cell.text.trim()) texts.push(cell.text.trim());
+      rows[r][c] = emptyCell();
+    }
+  }
+  rows[area.top][area.left] = {
+    text: texts.join(' '),
+    ...(area.bottom > area.top ? { rowSpan: area.bottom - area.top + 1 } : {}),
+    ...(area.right > area.left ? { colSpan: area.right - area.left + 1 } : {})
+  };
+  return { ...table, rows };
+};
+
+export const splitCell = (table: TableData, row: number, col: number): TableData => {
+  const rows = cloneRows(table);
+  rows[row][col] = { text: rows[row][col].text };
+  return { ...table, rows };
+};
+
+export const setCellText = (table: TableData, row: number, col: number, text: string): TableData => {
+  const rows = cloneRows(table);
+  rows[row][col] = { ...rows[row][col], text };
+  return { ...table, rows };
+};
+
+export const setColumnAlign = (table: TableData, col: number, align: TableAlign): TableData => ({
+  ...table,
+  columnAligns: table.columnAligns.map((a, i) => (i === col ? align : a))
+});
+
+// --- Rows and columns ---
+// Column operations run the row operation on the transposed grid.
+
+const transposeRows = (rows: TableCell[][]): TableCell[][] =>
+  rows[0].map((_, c) => rows.map(row => {
+    const { rowSpan, colSpan, ...rest } = row[c];
+    return { ...rest, ...(colSpan ? { rowSpan: colSpan } : {}), ...(rowSpan ? { colSpan: rowSpan } : {}) };
+  }));
+
+const insertRowInto = (rows: TableCell[][], index: number, width: number): TableCell[][] => {
+  const next = rows.map(row => row.map(cell => ({ ...cell })));
+  // Merges that span the insertion point grow by one row
+  next.forEach((row, r) => row.forEach(cell => {
+    if (r < index && r + (cell.rowSpan || 1) > index) cell.rowSpan = (cell.rowSpan || 1) + 1;
+  }));
+  next.splice(index, 0, Array.from({ length: width }, emptyCell));
+  return next;
+};
+
+const removeRowFrom = (rows: TableCell[][], index: number): TableCell[][] => {
+  const next = rows.map(row => row.map(cell => ({ ...cell })));
+  next.forEach((row, r) => row.forEach((cell, c) => {
+    const span = cell.rowSpan || 1;
+    if (span === 1) return;
+    if (r < index && r + span > index) {
+      cell.rowSpan = span - 1 > 1 ? span - 1 : undefined;
+    } else if (r === index) {
+      // The merge survives on the next row
+      next[r + 1][c] = { ...cell, rowSpan: span - 1 > 1 ? span - 1 : undefined };
+    }
+  }));
+  next.splice(index, 1);
+  return next.map(row => row.map(({ rowSpan, colSpan, ...cell }) => ({
+    ...cell,
+    ...(rowSpan ? { rowSpan } : {}),
+    ...(colSpan ? { colSpan } : {})
+  })));
+};
+
+export const insertRow = (table: TableData, index: number): TableData =>
+  table.rows.length >= MAX_TABLE_ROWS ? table : { ...table, rows: insertRowInto(table.rows, index, columnCount(table)) };
+
+export const removeRow = (table: TableData, index: number): TableData =>
+  table.rows.length <= 1 ? table : { ...table, rows: removeRowFrom(table.rows, index) };
+
+export const insertColumn = (table: TableData, index: number): TableData => {
+  if (columnCount(table) >= MAX_TABLE_COLUMNS) return table;
+  const columnAligns = [...table.columnAligns];
+  columnAligns.splice(index, 0, 'center');
+  return { ...table, columnAligns, rows: transposeRows(insertRowInto(transposeRows(table.rows), index, table.rows.length)) };
+};
+
+export const removeColumn = (table: TableData, index: number): TableData => {
+  if (columnCount(table) <= 1) return table;
+  return {
+    ...table,
+    columnAligns: table.columnAligns.filter((_, i) => i !== index),
+    rows: transposeRows(removeRowFrom(transposeRows(table.rows), index))
+  };
+};
+
+// --- Pasting ---
+
+// Tab-separated text copied from Excel, Numbers or Google Sheets; quoted
+// cells may contain line breaks. Returns null for text that is not a grid.
+export const parseTabularText = (text: string): string[][] | null => {
+  if (!text.includes('\t') && !/\r?\n./.test(text.trim())) return null;
+  const grid = parseCsv(text.replace(/(\r?\n)+$/, ''), '\t');
+  return grid.length ? grid : null;
+};
+
+// Writes a grid into the table starting at a cell, adding rows and columns
+// as needed (within the size limits). Merges in the pasted area are split.
+export const pasteGrid = (table: TableData, row: number, col: number, grid: string[][]): TableData => {
+  const height = Math.min(grid.length, MAX_TABLE_ROWS - row);
+  const width = Math.min(Math.max(...grid.map(line => line.length)), MAX_TABLE_COLUMNS - col);
+  let next = table;
+  while (next.rows.length < row + height) next = insertRow(next, next.rows.length);
+  while (columnCount(next) < col + width) next = insertColumn(next, columnCount(next));
+
+  const area: CellRange = { top: row, left: col, bottom: row + height - 1, right: col + width - 1 };
+  const rows = cloneRows(next);
+  rows.forEach((line, r) => line.forEach((cell, c) => {
+    if (isMerged(cell) && overlaps(rangeOfCell(next, r, c), area)) line[c] = { text: cell.text };
+  }));
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      rows[row + r][col + c] = { text: (grid[r][c] ?? '').replace(/\s*[\r\n]+\s*/g, ' ').trim() };
+    }
+  }
+  return { ...next, rows };
+};
@@ -0,0 +1,73 @@
+import { PosterTheme } from './types';
+
+export interface ThemePreset {
+  id: string;
+  name: string;
+  theme: PosterTheme;
+}
+
+// The original hard-coded look of the detail page
+export const DEFAULT_THEME: PosterTheme = {
+  presetId: 'classic',
+  pageBackground: '#efe8e0',
+  cardBackground: '#fff4ef',
+  accentColor: '#cca379',
+  labelTextColor: '#ffffff',
+  headingColor: '#1d1d1f',
+  textColor: '#1d1d1f',
+  cardRadius: 8.8,
+  imageRadius: 8
+};
+
+export const THEME_PRESETS: ThemePreset[] = [
+  {
+    id: 'classic',
+    name: '经典米色',
+    theme: DEFAULT_THEME
+  },
+  {
+    id: 'festival-red',
+    name: '节日红',
+    theme: {
+      presetId: 'festival-red',
+      pageBackground: '#b3191c',
+      cardBackground: '#fff6e5',
+      accentColor: '#d4a24c',
+      labelTextColor: '#ffffff',
+      headingColor: '#a31515',
+      textColor: '#3b1f1a',
+      cardRadius: 12,
+      imageRadius: 10
+    }
+  },
+  {
+    id: 'minimal-white',
+    name: '简约白',
+    theme: {
+      presetId: 'minimal-white',
+      pageBackground: '#ffffff',
+      cardBackground: '#f5f5f7',
+      accentColor: '#1d1d1f',
+      labelTextColor: '#ffffff',
+      headingColor: '#1d1d1f',
+      textColor: '#3a3a3c',
+      cardRadius: 4,
+      imageRadius: 0
+    }
+  },
+  {
+    id: 'dark-luxury',
+    name: '暗夜奢华',
+    theme: {
+      presetId: 'dark-luxury',
+      pageBackground: '#121212',
+      cardBackground: '#1f1c18',
+      accentColor: '#c9a45c',
+      labelTextColor: '#121212',
+      headingColor: '#e6c98a',
+      textColor: '#ece6da',
+      cardRadius: 6,
+      imageRadius: 4
+    }
+  }
+];
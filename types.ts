@@ -1,4 +1,4 @@
-export type ContentBlockType = 'text' | 'image';
+export type ContentBlockType = 'text' | 'image' | 'table' | 'gallery';
 
 export interface HeaderImage {
   id: string;
@@ -10,10 +10,40 @@ export interface HeaderImage {
   };
 }
 
+export type TableAlign = 'left' | 'center' | 'right';
+
+export interface TableCell {
+  text: string; // Plain text
+  rowSpan?: number; // Set on the top-left cell of a merged area
+  colSpan?: number;
+}
+
+export interface TableData {
+  rows: TableCell[][]; // Always rectangular; cells covered by a merge keep their slot
+  columnAligns: TableAlign[]; // One per column
+  headerRow: boolean; // First row rendered as the header
+  striped: boolean; // Zebra striping of body rows
+}
+
+export interface GalleryImage extends HeaderImage {
+  caption?: string; // Shown under the image when not empty
+}
+
+export interface GalleryData {
+  images: GalleryImage[];
+  columns: 2 | 3 | 4;
+  gap: number; // In pixels
+  aspectRatio: number; // Cell width / height; crops are recorded at this ratio
+  radius: number; // Corner radius in pixels
+}
+
 export interface ContentBlock {
   id: string;
   type: ContentBlockType;
-  value: string; // text content (HTML) or image url
+  value: string; // text content (HTML) or image url; unused by tables and galleries
+  alt?: string; // Image description, used as alt text in exports
+  table?: TableData; // Table blocks only
+  gallery?: GalleryData; // Gallery blocks only
   style?: {
     height?: number; // In pixels. 0 or undefined means 'auto'
     objectPosition?: 'top' | 'center' | 'bottom'; // Defaults to 'center'
@@ -30,10 +60,17 @@ export interface PosterDetail {
   };
 }
 
+export type MarketingCopyPosition = 'afterTitle' | 'beforeContent';
+
 export interface PosterData {
   subTitle: string;
   details: PosterDetail[];
-  marketingCopy: string;
+  marketingCopy: string; // Rich text (HTML)
+  marketingCopyStyle?: {
+    visible?: boolean; // Defaults to true so older projects show their copy
+    position?: MarketingCopyPosition; // Defaults to 'afterTitle'
+    textAlign?: 'left' | 'center' | 'right' | 'justify'; // Defaults to 'justify'
+  };
   content: ContentBlock[];
 }
 
@@ -42,4 +79,46 @@ export interface ImageConfig {
   x: number;
   y: number;
   scale: number;
-}
\ No newline at end of file
+}
+
+export interface PosterTheme {
+  presetId?: string; // Built-in preset this theme was derived from
+  pageBackground: string; // Page background, also used as export background
+  cardBackground: string; // Title / details cards
+  accentColor: string; // Label pill fill
+  labelTextColor: string; // Text inside the label pill
+  headingColor: string; // Card headings and title
+  textColor: string; // Body text
+  cardRadius: number; // In pixels
+  imageRadius: number; // In pixels
+}
+
+export type ExportMode = 'single' | 'sliced';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportSettings {
+  mode: ExportMode;
+  format: ExportFormat;
+  width: number; // Output pixel width of the long image (poster is 375px wide)
+  quality: number; // 0.1 - 1, JPEG / WebP only
+  maxFileKB: number; // Per output file (whole image or each slice), 0 = no limit
+  sliceMaxHeight: number; // Output pixels per slice, 0 = no limit
+}
+
+// A saved project: an IndexedDB draft, or the payload of an exported project file
+export interface SavedRecord {
+  formatVersion?: number; // Schema version, missing in records saved before versioning
+  id: string;
+  name: string;
+  timestamp: number;
+  data: PosterData;
+  imageConfig: ImageConfig;
+  functionalImages?: HeaderImage[];
+  theme?: PosterTheme; // Missing in records saved before themes existed
+  layoutId?: string; // Missing in records saved before layouts existed
+  exportSettings?: Partial<ExportSettings>; // Missing fields use the defaults
+  thumbnail?: string; // Small JPEG data URL of the poster top, made at save time
+  tags?: string[]; // Library labels
+  folder?: string; // Library folder, empty / missing = unfiled
+}